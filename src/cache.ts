@@ -0,0 +1,446 @@
+import {
+  cacheControl,
+  etagFor,
+  isNotModified,
+  respondNotModified,
+} from './conditional'
+import { edgeGet, EdgeEntry, edgePurge, edgePut } from './edge'
+import { respondError } from './errors'
+import { respondRaw } from './response'
+import {
+  deserializeError,
+  SerializedError,
+  serializeError,
+  singleFlight,
+} from './singleflight'
+import { CacheTtl, cacheTtl, Endpoint, negativeTtl } from './ttl'
+import {
+  httpError,
+  payloadError,
+  RateLimitError,
+  twitterFetch,
+} from './twitter'
+import { Env, Payload } from './types'
+
+// Reported in the X-Cache-Status header of every cached response
+export type CacheStatus =
+  | 'fresh'
+  | 'miss'
+  | 'stale-revalidating'
+  | 'stale-on-error'
+
+export type QueryParams = Record<string, string | undefined>
+
+// Commas are kept readable since Twitter field lists are comma separated
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(/%2C/gi, ',')
+
+export const toQueryString = (params: QueryParams): string =>
+  Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${encode(name)}=${encode(value as string)}`)
+    .join('&')
+
+// Sorts and de-duplicates a comma separated list, so `retweets,replies` and
+// `replies,retweets` share a cache entry.
+export const normalizeList = (value: string): string =>
+  Array.from(
+    new Set(
+      value
+        .split(',')
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  )
+    .sort()
+    .join(',')
+
+// Builds the R2 key for an upstream query. Every parameter sent upstream is
+// part of the key, except those left at their default, which keeps the
+// default timeline at `${userid}.json`.
+export const buildCacheKey = (
+  namespace: string,
+  id: string,
+  params: QueryParams,
+  defaults: QueryParams = {},
+): string => {
+  const shaping: QueryParams = {}
+  for (const name of Object.keys(params).sort()) {
+    if (params[name] !== undefined && params[name] !== defaults[name]) {
+      shaping[name] = params[name]
+    }
+  }
+  const query = toQueryString(shaping)
+  return `${namespace}${id}${query ? `.${query}` : ''}.json`
+}
+
+export interface CachedFetchOptions {
+  // R2 key the upstream payload is stored under
+  cacheKey: string
+  // Twitter API path, relative to the /2 base
+  path: string
+  // Account the payload belongs to, when there is one, for per-account TTLs
+  userid?: string
+  // Selects the TTL that applies, see cacheTtl
+  endpoint: Endpoint
+  // Freshness in seconds requested by a trusted caller
+  maxAge?: number
+  // Extra custom metadata stored alongside the cached object
+  metadata?: Record<string, string>
+  // Applied to the payload before it is served, never to what is stored
+  transform?: (payload: Payload) => Payload
+  // Serializes the transformed payload, as JSON when absent
+  render?: (payload: Payload) => Rendered
+}
+
+// Options for a payload listing an account's tweets
+export type AccountFetchOptions = CachedFetchOptions & { userid: string }
+
+// A payload serialized for the response
+export interface Rendered {
+  body: string
+  contentType: string
+}
+
+// The payload of a refresh and the bearer token slot that fetched it
+export interface Refreshed {
+  data: Payload
+  tokenSlot: number
+}
+
+// Serves a cached or freshly fetched JSON body with validators derived from it,
+// answering conditional requests with a 304. A body assembled from several
+// entries ages from the oldest, `uploaded`, and was last modified with the
+// newest, `modified`.
+export const serve = async (
+  request: Request,
+  body: string,
+  status: CacheStatus,
+  validity: { uploaded: Date; modified?: Date; ttl: CacheTtl },
+  { transform, render }: Pick<CachedFetchOptions, 'transform' | 'render'>,
+  extraHeaders?: Record<string, string>,
+): Promise<Response> => {
+  let text = body
+  let contentType = 'application/json'
+  if (transform !== undefined || render !== undefined) {
+    try {
+      let payload: Payload = JSON.parse(text)
+      if (transform !== undefined) {
+        payload = transform(payload)
+      }
+      if (render === undefined) {
+        text = JSON.stringify(payload)
+      } else {
+        const rendered = render(payload)
+        text = rendered.body
+        contentType = rendered.contentType
+      }
+    } catch (e) {
+      console.log('Error parsing cached payload, serving it unchanged:', e)
+    }
+  }
+
+  const { uploaded, modified = uploaded, ttl } = validity
+  const headers = {
+    ...extraHeaders,
+    'content-type': contentType,
+    'X-Cache-Status': status,
+    'Cache-Control': cacheControl(status, ttl, Date.now() - uploaded.getTime()),
+    ETag: await etagFor(text),
+    'Last-Modified': modified.toUTCString(),
+  }
+  if (isNotModified(request, headers.ETag, modified)) {
+    return respondNotModified(headers)
+  }
+  return respondRaw(text, headers)
+}
+
+// Names the token slot, never the token, for debugging failover
+export const tokenSlotHeader = (slot: number): Record<string, string> => ({
+  'X-Token-Slot': String(slot),
+})
+
+// Names what a cache entry holds in log messages
+const subject = ({ cacheKey, userid }: CachedFetchOptions) =>
+  userid === undefined ? cacheKey : `userid ${userid}`
+
+// Error payloads are remembered apart from the last good payload, which keeps
+// being served while they are
+const negativeKey = (cacheKey: string) => `errors/${cacheKey}`
+
+// Returns the error remembered for `cacheKey`, if it is recent enough
+const readNegative = async (
+  env: Env,
+  cacheKey: string,
+): Promise<Error | null> => {
+  const ttl = negativeTtl(env)
+  if (ttl === undefined) {
+    return null
+  }
+  try {
+    const object = await env.MY_BUCKET.get(negativeKey(cacheKey))
+    if (object === null || Date.now() - object.uploaded.getTime() > ttl) {
+      return null
+    }
+    return deserializeError(await new Response(object.body).json())
+  } catch (e) {
+    console.log('Error reading negative cache entry:', e)
+    return null
+  }
+}
+
+const writeNegative = async (
+  env: Env,
+  cacheKey: string,
+  error: Error,
+): Promise<void> => {
+  if (negativeTtl(env) === undefined) {
+    return
+  }
+  try {
+    await env.MY_BUCKET.put(
+      negativeKey(cacheKey),
+      JSON.stringify(serializeError(error)),
+      { customMetadata: { 'Content-Type': 'application/json' } },
+    )
+  } catch (e) {
+    console.log('Error storing negative cache entry:', e)
+  }
+}
+
+// Stores `body` under the cache key of `options` in R2, replacing the edge
+// cache entry so both tiers agree
+export const store = async (
+  env: Env,
+  options: CachedFetchOptions,
+  body: string,
+): Promise<void> => {
+  const { cacheKey, userid, endpoint, metadata } = options
+  try {
+    await env.MY_BUCKET.put(cacheKey, body, {
+      customMetadata: {
+        'Content-Type': 'application/json',
+        ...(userid === undefined ? {} : { userid }),
+        ...metadata,
+      },
+    })
+    console.log(`Data cached for ${subject(options)}`)
+    await edgePut(
+      cacheKey,
+      { body, uploaded: new Date() },
+      cacheTtl(env, endpoint, userid).fresh,
+    )
+  } catch (e) {
+    console.log('Error storing to R2 cache:', e)
+    // Continue without caching on R2 errors, but never leave the edge tier
+    // serving what R2 no longer agrees with
+    await edgePurge(cacheKey)
+  }
+}
+
+// Fetches `path` from Twitter and stores the payload under `cacheKey` in R2,
+// replacing the edge cache entry so both tiers agree.
+// Throws when Twitter fails, answers with something other than JSON or with
+// errors instead of data. Error payloads never replace the stored one.
+export const refresh = async (
+  env: Env,
+  options: CachedFetchOptions,
+): Promise<Refreshed> => {
+  const { cacheKey, path } = options
+  const remembered = await readNegative(env, cacheKey)
+  if (remembered !== null) {
+    console.log(
+      `Skipping Twitter for ${cacheKey}, it recently answered with errors`,
+    )
+    throw remembered
+  }
+  const { response, slot } = await twitterFetch(path, env)
+
+  // Check for HTTP error status codes (like 429 rate limiting, 401 auth errors, etc.)
+  if (!response.ok) {
+    throw await httpError(response)
+  }
+  const data: Payload = await response.json()
+  const error = payloadError(response, data)
+  if (error !== null) {
+    console.log(`Not caching error payload for ${cacheKey}:`, error)
+    await writeNegative(env, cacheKey, error)
+    throw error
+  }
+  await store(env, options, JSON.stringify(data))
+  return { data, tokenSlot: slot }
+}
+
+// Refreshes `cacheKey` at most once at a time. The RefreshCoordinator Durable
+// Object coalesces refreshes across isolates; without it, or when it cannot be
+// reached, they are coalesced within this isolate only.
+export const coalescedRefresh = async (
+  env: Env,
+  options: CachedFetchOptions,
+): Promise<Refreshed> => {
+  const { cacheKey, path, userid, endpoint, metadata } = options
+  if (env.REFRESH_COORDINATOR !== undefined) {
+    let response: Response | undefined
+    try {
+      const stub = env.REFRESH_COORDINATOR.get(
+        env.REFRESH_COORDINATOR.idFromName(cacheKey),
+      )
+      response = await stub.fetch('https://refresh-coordinator/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ cacheKey, path, userid, endpoint, metadata }),
+      })
+    } catch (e) {
+      console.log('Error reaching refresh coordinator:', e)
+    }
+    if (response !== undefined) {
+      if (!response.ok) {
+        const { error }: { error: SerializedError } = await response.json()
+        throw deserializeError(error)
+      }
+      return response.json()
+    }
+  }
+  return singleFlight(cacheKey, () => refresh(env, options))
+}
+
+export const readR2 = async (
+  env: Env,
+  cacheKey: string,
+): Promise<EdgeEntry | null> => {
+  try {
+    const object = await env.MY_BUCKET.get(cacheKey)
+    if (object === null) {
+      return null
+    }
+    return {
+      body: await new Response(object.body).text(),
+      uploaded: object.uploaded,
+    }
+  } catch (e) {
+    console.log('Error reading from R2 cache:', e)
+    // Continue without cache on R2 errors
+    return null
+  }
+}
+
+// Serves `path` from the edge cache or R2, refreshing it from Twitter once it
+// is stale. With an execution context, moderately stale data is served
+// immediately and refreshed in the background. Stale data is preferred over an
+// error whenever the upstream call fails.
+export const cachedFetch = async (
+  request: Request,
+  env: Env,
+  options: CachedFetchOptions,
+  ctx?: ExecutionContext,
+): Promise<Response> => {
+  const { cacheKey, userid, endpoint, maxAge } = options
+  const ttl = cacheTtl(env, endpoint, userid, maxAge)
+  console.log(`Using cache key: ${cacheKey}`)
+
+  const edge = await edgeGet(cacheKey)
+  if (edge !== null && Date.now() - edge.uploaded.getTime() <= ttl.fresh) {
+    console.log(
+      `Edge cache hit for ${subject(options)}, returning cached data...`,
+    )
+    return serve(
+      request,
+      edge.body,
+      'fresh',
+      { uploaded: edge.uploaded, ttl },
+      options,
+    )
+  }
+
+  const cached = await readR2(env, cacheKey)
+  const age =
+    cached === null ? Infinity : Date.now() - cached.uploaded.getTime()
+  if (cached !== null && age <= ttl.fresh) {
+    console.log(`Cache hit for ${subject(options)}, returning cached data...`)
+    // Later requests in this colo skip R2 until the object goes stale
+    const populate = edgePut(
+      cacheKey,
+      cached,
+      cacheTtl(env, endpoint, userid).fresh,
+    )
+    if (ctx !== undefined) {
+      ctx.waitUntil(populate)
+    } else {
+      await populate
+    }
+    return serve(
+      request,
+      cached.body,
+      'fresh',
+      { uploaded: cached.uploaded, ttl },
+      options,
+    )
+  }
+
+  if (cached !== null && age <= ttl.stale && ctx !== undefined) {
+    console.log(
+      `Serving stale data for ${subject(
+        options,
+      )}, refreshing in the background...`,
+    )
+    ctx.waitUntil(
+      coalescedRefresh(env, options).catch((e) =>
+        console.log('Error refreshing cache in the background: ', e),
+      ),
+    )
+    return serve(
+      request,
+      cached.body,
+      'stale-revalidating',
+      { uploaded: cached.uploaded, ttl },
+      options,
+    )
+  }
+
+  // Cached object is not found or too old to be served while refreshing
+  console.log(`Cache miss for ${subject(options)}, fetching new data...`)
+  let refreshed: Refreshed
+  try {
+    refreshed = await coalescedRefresh(env, options)
+  } catch (e) {
+    // response.json() throws a SyntaxError on malformed bodies
+    const parseError = e instanceof SyntaxError
+    console.log(
+      parseError
+        ? 'Error parsing JSON response:'
+        : 'Error fetching from Twitter: ',
+      e,
+    )
+    // If we have stale cached data, return it during error conditions
+    if (cached !== null) {
+      console.log(
+        `Returning stale cached data due to ${
+          parseError ? 'JSON parse' : 'API'
+        } error`,
+      )
+      return serve(
+        request,
+        cached.body,
+        'stale-on-error',
+        { uploaded: cached.uploaded, ttl },
+        options,
+      )
+    }
+    // No cached data available, return error
+    return respondError(
+      e instanceof RateLimitError
+        ? 'Rate limited by Twitter and no cache available'
+        : parseError
+        ? 'Failed to parse response and no cache available'
+        : 'Failed to fetch data and no cache available',
+      e,
+    )
+  }
+  return serve(
+    request,
+    JSON.stringify(refreshed.data),
+    'miss',
+    { uploaded: new Date(), ttl },
+    options,
+    tokenSlotHeader(refreshed.tokenSlot),
+  )
+}
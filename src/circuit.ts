@@ -0,0 +1,149 @@
+import { setting } from './settings'
+import { Env } from './types'
+
+// A circuit breaker around the Twitter API, shared by every isolate through
+// R2. After enough consecutive failures the circuit opens and Twitter is not
+// called at all, so requests fall back to cached data immediately. Once the
+// cooldown has passed, a single probe call decides whether it closes again.
+
+const CIRCUIT_KEY = 'circuit/twitter.json'
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_COOLDOWN_MS = 30_000
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface Circuit {
+  state: CircuitState
+  // Consecutive failed calls
+  failures: number
+  // Epoch milliseconds at which the circuit last opened
+  opened_at?: number
+  // Epoch milliseconds at which the half-open probe started
+  probe_at?: number
+}
+
+// Thrown instead of calling Twitter while the circuit is open
+export class CircuitOpenError extends Error {
+  constructor(public reset: Date) {
+    super('Twitter is failing, calls are suspended')
+    this.name = 'CircuitOpenError'
+  }
+
+  // Seconds until the next probe, for the Retry-After header
+  get retryAfter(): number {
+    return Math.max(1, Math.ceil((this.reset.getTime() - Date.now()) / 1000))
+  }
+}
+
+const threshold = (env: Env) =>
+  setting(env.CIRCUIT_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD, 1)
+
+const cooldown = (env: Env) =>
+  setting(env.CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS, 1)
+
+const CLOSED: Circuit = { state: 'closed', failures: 0 }
+
+const readCircuit = async (env: Env): Promise<Circuit> => {
+  try {
+    const object = await env.MY_BUCKET.get(CIRCUIT_KEY)
+    return object === null ? CLOSED : await new Response(object.body).json()
+  } catch (e) {
+    console.log('Error reading circuit state from R2:', e)
+    // Treated as closed, so R2 trouble never stops every call
+    return CLOSED
+  }
+}
+
+const writeCircuit = async (env: Env, circuit: Circuit): Promise<void> => {
+  try {
+    await env.MY_BUCKET.put(CIRCUIT_KEY, JSON.stringify(circuit), {
+      customMetadata: { 'Content-Type': 'application/json' },
+    })
+  } catch (e) {
+    console.log('Error storing circuit state to R2:', e)
+  }
+}
+
+// When the circuit, or its probe, blocks calls, returns when that ends
+const blockedUntil = (env: Env, circuit: Circuit): number | null => {
+  const since =
+    circuit.state === 'open'
+      ? circuit.opened_at
+      : circuit.state === 'half-open'
+      ? circuit.probe_at
+      : undefined
+  if (since === undefined || since + cooldown(env) <= Date.now()) {
+    return null
+  }
+  return since + cooldown(env)
+}
+
+// Throws a CircuitOpenError unless Twitter may be called. Once the cooldown
+// has passed, the caller becomes the probe. Returns the circuit as read, to be
+// handed back to recordSuccess or recordFailure.
+export const guardCircuit = async (env: Env): Promise<Circuit> => {
+  const circuit = await readCircuit(env)
+  if (circuit.state === 'closed') {
+    return circuit
+  }
+  const until = blockedUntil(env, circuit)
+  if (until !== null) {
+    throw new CircuitOpenError(new Date(until))
+  }
+  console.log('Circuit half-open, probing Twitter')
+  const probing: Circuit = {
+    ...circuit,
+    state: 'half-open',
+    probe_at: Date.now(),
+  }
+  await writeCircuit(env, probing)
+  return probing
+}
+
+export const recordSuccess = async (
+  env: Env,
+  circuit: Circuit,
+): Promise<void> => {
+  // Skips the R2 write in the common case
+  if (circuit.state !== 'closed' || circuit.failures > 0) {
+    if (circuit.state !== 'closed') {
+      console.log('Twitter answered the probe, closing the circuit')
+    }
+    await writeCircuit(env, CLOSED)
+  }
+}
+
+export const recordFailure = async (
+  env: Env,
+  circuit: Circuit,
+): Promise<void> => {
+  const failures = circuit.failures + 1
+  // A failed probe reopens the circuit straight away
+  if (circuit.state !== 'closed' || failures >= threshold(env)) {
+    console.log(`Opening the circuit after ${failures} consecutive failures`)
+    await writeCircuit(env, { state: 'open', failures, opened_at: Date.now() })
+  } else {
+    await writeCircuit(env, { state: 'closed', failures })
+  }
+}
+
+// Describes the circuit for the status endpoint
+export const circuitStatus = async (
+  env: Env,
+): Promise<Record<string, unknown>> => {
+  const circuit = await readCircuit(env)
+  const until = blockedUntil(env, circuit)
+  return {
+    // An open circuit past its cooldown lets the next call probe
+    state:
+      circuit.state === 'open' && until === null ? 'half-open' : circuit.state,
+    failures: circuit.failures,
+    failure_threshold: threshold(env),
+    cooldown_ms: cooldown(env),
+    opened_at:
+      circuit.opened_at === undefined
+        ? undefined
+        : new Date(circuit.opened_at).toISOString(),
+    retry_at: until === null ? undefined : new Date(until).toISOString(),
+  }
+}
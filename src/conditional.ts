@@ -0,0 +1,65 @@
+import { CacheStatus } from './cache'
+import { corsHeaders } from './response'
+import { CacheTtl } from './ttl'
+
+// Strong ETag derived from the exact bytes served. Served bodies can differ
+// from the stored R2 object (e.g. `next_cursor`), so R2's own etag won't do.
+export const etagFor = async (body: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(body),
+  )
+  const hex = Array.from(new Uint8Array(digest))
+    .slice(0, 16)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+  return `"${hex}"`
+}
+
+// Browsers and the CDN may reuse a response for as long as the cached object
+// stays fresh, and keep serving it while revalidating for the stale window.
+export const cacheControl = (
+  status: CacheStatus,
+  ttl: CacheTtl,
+  age: number,
+): string => {
+  if (status === 'stale-revalidating' || status === 'stale-on-error') {
+    return 'public, max-age=0, must-revalidate'
+  }
+  // Ages count whole seconds, like the Age header, so data fetched a few
+  // milliseconds ago still gets the full TTL
+  const elapsed = Math.floor(Math.max(age, 0) / 1000) * 1000
+  const maxAge = Math.max(0, Math.floor((ttl.fresh - elapsed) / 1000))
+  const staleWhileRevalidate = Math.floor((ttl.stale - ttl.fresh) / 1000)
+  return staleWhileRevalidate > 0
+    ? `public, max-age=${maxAge}, stale-while-revalidate=${staleWhileRevalidate}`
+    : `public, max-age=${maxAge}`
+}
+
+// Evaluates If-None-Match and, only in its absence, If-Modified-Since, as
+// RFC 9110 prescribes
+export const isNotModified = (
+  request: Request,
+  etag: string,
+  lastModified: Date,
+): boolean => {
+  const ifNoneMatch = request.headers.get('If-None-Match')
+  if (ifNoneMatch !== null) {
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === '*' || tag === etag)
+  }
+
+  const ifModifiedSince = Date.parse(
+    request.headers.get('If-Modified-Since') || '',
+  )
+  // HTTP dates have a one second resolution
+  return (
+    !isNaN(ifModifiedSince) &&
+    Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+  )
+}
+
+export const respondNotModified = (headers: Record<string, string>): Response =>
+  new Response(null, { status: 304, headers: { ...corsHeaders, ...headers } })
@@ -0,0 +1,22 @@
+import { CachedFetchOptions, refresh } from './cache'
+import { respond } from './response'
+import { serializeError, singleFlight } from './singleflight'
+import { Env } from './types'
+
+// One instance per cache key, addressed with idFromName(cacheKey), so every
+// isolate refreshing the same key waits on a single upstream call
+export class RefreshCoordinator implements DurableObject {
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const options: CachedFetchOptions = await request.json()
+    try {
+      const { data, tokenSlot } = await singleFlight(options.cacheKey, () =>
+        refresh(this.env, options),
+      )
+      return respond({ data, tokenSlot })
+    } catch (e) {
+      return respond({ error: serializeError(e) }, 502)
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// Cloudflare's per-colo Cache API sits in front of R2, so hot keys are served
+// without an R2 read. Entries mirror the stored R2 payload and its upload time.
+
+// Keys are derived from the canonical R2 key on a fixed origin, so scheduled
+// refreshes, which have no incoming request, can replace them too
+const EDGE_ORIGIN = 'https://edge-cache.twitter-worker.internal'
+const UPLOADED_HEADER = 'X-Uploaded'
+
+export interface EdgeEntry {
+  body: string
+  uploaded: Date
+}
+
+// caches.default only exists in the Workers runtime
+const edgeCache = (): Cache | undefined =>
+  typeof caches === 'undefined'
+    ? undefined
+    : (caches as CacheStorage & { default: Cache }).default
+
+const edgeKey = (cacheKey: string) =>
+  new Request(`${EDGE_ORIGIN}/${encodeURI(cacheKey)}`)
+
+export const edgeGet = async (cacheKey: string): Promise<EdgeEntry | null> => {
+  const cache = edgeCache()
+  if (cache === undefined) {
+    return null
+  }
+  try {
+    const response = await cache.match(edgeKey(cacheKey))
+    const uploaded = response?.headers.get(UPLOADED_HEADER)
+    if (!response || !uploaded) {
+      return null
+    }
+    return { body: await response.text(), uploaded: new Date(uploaded) }
+  } catch (e) {
+    console.log('Error reading from edge cache:', e)
+    return null
+  }
+}
+
+// Stores the entry for as long as it stays fresh
+export const edgePut = async (
+  cacheKey: string,
+  entry: EdgeEntry,
+  freshMs: number,
+): Promise<void> => {
+  const cache = edgeCache()
+  const remaining = Math.floor(
+    (freshMs - (Date.now() - entry.uploaded.getTime())) / 1000,
+  )
+  if (cache === undefined || remaining <= 0) {
+    return
+  }
+  try {
+    await cache.put(
+      edgeKey(cacheKey),
+      new Response(entry.body, {
+        headers: {
+          'content-type': 'application/json',
+          'Cache-Control': `max-age=${remaining}`,
+          [UPLOADED_HEADER]: entry.uploaded.toISOString(),
+        },
+      }),
+    )
+  } catch (e) {
+    console.log('Error storing to edge cache:', e)
+  }
+}
+
+export const edgePurge = async (cacheKey: string): Promise<void> => {
+  try {
+    await edgeCache()?.delete(edgeKey(cacheKey))
+  } catch (e) {
+    console.log('Error purging edge cache:', e)
+  }
+}
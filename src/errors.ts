@@ -0,0 +1,101 @@
+import { CircuitOpenError } from './circuit'
+import { respond } from './response'
+import { UpstreamTimeoutError } from './retry'
+import { RateLimitError, TwitterHttpError } from './twitter'
+
+// Machine-readable reason reported in the `code` field of error responses
+export type ErrorCode =
+  | 'invalid_request'
+  | 'not_found'
+  | 'forbidden'
+  | 'unavailable'
+  | 'rate_limited'
+  | 'circuit_open'
+  | 'upstream_unauthorized'
+  | 'upstream_forbidden'
+  | 'upstream_error'
+  | 'upstream_unavailable'
+  | 'upstream_timeout'
+  | 'upstream_unreachable'
+  | 'invalid_response'
+
+export interface ApiError {
+  status: number
+  code: ErrorCode
+  message: string
+  // Status Twitter answered with, absent when it could not be reached
+  upstream_status?: number
+}
+
+type Mapping = Pick<ApiError, 'status' | 'code'>
+
+// Problems the caller can act on keep their meaning; problems with our own
+// credentials or Twitter itself are reported as gateway errors
+const STATUS_MAPPINGS: Record<number, Mapping> = {
+  400: { status: 400, code: 'invalid_request' },
+  401: { status: 502, code: 'upstream_unauthorized' },
+  403: { status: 502, code: 'upstream_forbidden' },
+  404: { status: 404, code: 'not_found' },
+  429: { status: 503, code: 'rate_limited' },
+  503: { status: 503, code: 'upstream_unavailable' },
+  504: { status: 504, code: 'upstream_timeout' },
+}
+
+// Keyed by the last segment of the problem type URI, which is more specific
+// than the status it came with
+const PROBLEM_MAPPINGS: Record<string, Mapping> = {
+  'invalid-request': { status: 400, code: 'invalid_request' },
+  'resource-not-found': { status: 404, code: 'not_found' },
+  'not-authorized-for-resource': { status: 403, code: 'forbidden' },
+  'resource-unavailable': { status: 404, code: 'unavailable' },
+  'client-forbidden': { status: 502, code: 'upstream_forbidden' },
+  'usage-capped': { status: 503, code: 'rate_limited' },
+}
+
+const problemMapping = (type?: string): Mapping | undefined =>
+  type === undefined ? undefined : PROBLEM_MAPPINGS[type.split('/').pop() ?? '']
+
+// Maps anything thrown while talking to Twitter to the error we report
+export const toApiError = (e: unknown): ApiError => {
+  if (e instanceof TwitterHttpError) {
+    const { status, code } = problemMapping(e.problem?.type) ??
+      STATUS_MAPPINGS[e.status] ?? { status: 502, code: 'upstream_error' }
+    return {
+      status,
+      code,
+      message: e.problem?.detail ?? e.problem?.title ?? e.message,
+      upstream_status: e.status,
+    }
+  }
+  if (e instanceof CircuitOpenError) {
+    return { status: 503, code: 'circuit_open', message: e.message }
+  }
+  if (e instanceof UpstreamTimeoutError) {
+    return { status: 504, code: 'upstream_timeout', message: e.message }
+  }
+  // response.json() throws a SyntaxError on malformed bodies
+  if (e instanceof SyntaxError) {
+    return {
+      status: 502,
+      code: 'invalid_response',
+      message: 'Twitter returned a malformed response',
+    }
+  }
+  return {
+    status: 502,
+    code: 'upstream_unreachable',
+    message: 'Twitter could not be reached',
+  }
+}
+
+// Responds with `error` as the summary and the mapped details of `e`
+export const respondError = (error: string, e: unknown): Response => {
+  const { status, ...details } = toApiError(e)
+  return respond(
+    { error, ...details },
+    status,
+    e instanceof RateLimitError || e instanceof CircuitOpenError
+      ? { 'Retry-After': String(e.retryAfter) }
+      : {},
+  )
+}
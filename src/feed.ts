@@ -0,0 +1,227 @@
+import { Rendered } from './cache'
+import { SimpleTweet, simpleTweets } from './simple'
+import { Endpoint } from './ttl'
+import { Payload } from './types'
+
+// The `format=rss`, `format=atom` and `format=jsonfeed` outputs, for feed
+// readers and the like. Items are built from the same flattened tweets as
+// `format=simple`.
+
+// Longest item title, the full text being in the item content
+const TITLE_LENGTH = 100
+
+interface Owner {
+  id: string
+  username?: string
+  name?: string
+  profile_image_url?: string
+}
+
+// What a feed is about, for its title, link and author
+export interface FeedInfo {
+  title: string
+  link: string
+  author: { name: string; avatar?: string }
+}
+
+// XML 1.0 allows tab, newline and carriage return among control characters,
+// and neither U+FFFE nor U+FFFF, even escaped
+const isXmlChar = (char: string) => {
+  const code = char.codePointAt(0) as number
+  return (
+    (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) &&
+    code !== 0xfffe &&
+    code !== 0xffff
+  )
+}
+
+const escapeXml = (text: string): string =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+// An account whose tweets, or likes, the feed lists
+const ownerOf = (payload: Payload, userid: string): Owner => {
+  const users = (payload.includes as { users?: Owner[] } | undefined)?.users
+  return users?.find((user) => user.id === userid) ?? { id: userid }
+}
+
+const profileUrl = ({ id, username }: Owner) =>
+  username === undefined
+    ? `https://twitter.com/i/user/${id}`
+    : `https://twitter.com/${username}`
+
+const handle = (owner: Owner) =>
+  owner.username === undefined ? owner.id : `@${owner.username}`
+
+// The feed of one account's tweets, or of the tweets it liked
+export const accountFeed = (
+  payload: Payload,
+  userid: string,
+  endpoint: Endpoint,
+): FeedInfo => {
+  const owner = ownerOf(payload, userid)
+  const title =
+    endpoint === 'likes'
+      ? `Tweets liked by ${handle(owner)}`
+      : `Tweets by ${handle(owner)}`
+  return {
+    title,
+    link: profileUrl(owner),
+    author: { name: owner.name ?? title, avatar: owner.profile_image_url },
+  }
+}
+
+// The feed of several accounts' tweets, which has no page on Twitter, so it
+// links to `link`, the feed itself
+export const mergedFeed = (
+  payload: Payload,
+  userids: string[],
+  link: string,
+): FeedInfo => {
+  const title = `Tweets by ${userids
+    .map((userid) => handle(ownerOf(payload, userid)))
+    .join(', ')}`
+  return { title, link, author: { name: title } }
+}
+
+const itemTitle = ({ text }: SimpleTweet) => {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > TITLE_LENGTH
+    ? `${line.slice(0, TITLE_LENGTH - 1)}…`
+    : line
+}
+
+// The tweet as HTML, with its expanded links clickable
+const itemHtml = ({ text, urls }: SimpleTweet) =>
+  Array.from(new Set(urls))
+    .reduce((html, url) => {
+      const escaped = escapeXml(url)
+      return html.split(escaped).join(`<a href="${escaped}">${escaped}</a>`)
+    }, escapeXml(text))
+    .replace(/\n/g, '<br>')
+
+const itemAuthor = ({ author }: SimpleTweet) =>
+  author === null ? undefined : `@${author.username}`
+
+// Tweets without a valid created_at are listed, just undated
+const isoDate = (value?: string) => {
+  const date = new Date(value ?? '')
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+const element = (name: string, value: string | undefined) =>
+  value === undefined ? '' : `<${name}>${escapeXml(value)}</${name}>`
+
+// RSS 2.0, with pubDate in RFC 822 form
+export const renderRss = (payload: Payload, feed: FeedInfo): Rendered => {
+  const items = simpleTweets(payload).map((tweet) =>
+    [
+      '<item>',
+      element('title', itemTitle(tweet)),
+      element('link', tweet.permalink),
+      `<guid isPermaLink="true">${escapeXml(tweet.permalink)}</guid>`,
+      element('pubDate', isoDate(tweet.created_at)?.toUTCString()),
+      // RSS's own <author> must be an email address
+      element('dc:creator', itemAuthor(tweet)),
+      element('description', itemHtml(tweet)),
+      '</item>',
+    ].join(''),
+  )
+  return {
+    body: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/"><channel>',
+      element('title', feed.title),
+      element('link', feed.link),
+      element('description', feed.title),
+      ...items,
+      '</channel></rss>',
+    ].join('\n'),
+    contentType: 'application/rss+xml; charset=utf-8',
+  }
+}
+
+// Atom 1.0, updated as of the newest tweet
+export const renderAtom = (payload: Payload, feed: FeedInfo): Rendered => {
+  const tweets = simpleTweets(payload)
+  const updated = tweets.reduce((newest, tweet) => {
+    const date = isoDate(tweet.created_at)
+    return date !== undefined && date > newest ? date : newest
+  }, new Date(0))
+  const entries = tweets.map((tweet) => {
+    const date = isoDate(tweet.created_at) ?? updated
+    return [
+      '<entry>',
+      element('id', tweet.permalink),
+      `<link rel="alternate" href="${escapeXml(tweet.permalink)}"/>`,
+      element('title', itemTitle(tweet)),
+      element('published', date.toISOString()),
+      element('updated', date.toISOString()),
+      tweet.author === null
+        ? ''
+        : `<author>${element('name', itemAuthor(tweet))}${element(
+            'uri',
+            profileUrl(tweet.author),
+          )}</author>`,
+      `<content type="html">${escapeXml(itemHtml(tweet))}</content>`,
+      '</entry>',
+    ].join('')
+  })
+  return {
+    body: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      element('id', feed.link),
+      element('title', feed.title),
+      `<link rel="alternate" href="${escapeXml(feed.link)}"/>`,
+      element('updated', updated.toISOString()),
+      `<author>${element('name', feed.author.name)}</author>`,
+      ...entries,
+      '</feed>',
+    ].join('\n'),
+    contentType: 'application/atom+xml; charset=utf-8',
+  }
+}
+
+// JSON Feed 1.1, with Twitter's public metrics in a `_twitter` extension
+export const renderJsonFeed = (payload: Payload, feed: FeedInfo): Rendered => {
+  const raw = Array.isArray(payload.data)
+    ? (payload.data as { public_metrics?: Record<string, number> }[])
+    : []
+  // simpleTweets keeps the order of payload.data
+  const items = simpleTweets(payload).map((tweet, index) => ({
+    id: tweet.id,
+    url: tweet.permalink,
+    title: itemTitle(tweet),
+    content_text: tweet.text,
+    content_html: itemHtml(tweet),
+    date_published: isoDate(tweet.created_at)?.toISOString(),
+    authors:
+      tweet.author === null
+        ? undefined
+        : [
+            {
+              name: tweet.author.name ?? itemAuthor(tweet),
+              url: profileUrl(tweet.author),
+              avatar: tweet.author.avatar,
+            },
+          ],
+    _twitter: { public_metrics: raw[index]?.public_metrics },
+  }))
+  return {
+    body: JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      home_page_url: feed.link,
+      authors: [{ ...feed.author, url: feed.link }],
+      items,
+    }),
+    contentType: 'application/feed+json; charset=utf-8',
+  }
+}
@@ -0,0 +1,67 @@
+import { AccountFetchOptions, CachedFetchOptions, Rendered } from './cache'
+import {
+  accountFeed,
+  FeedInfo,
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+} from './feed'
+import { simplify } from './simple'
+import { Payload } from './types'
+
+// Alternative renderings of a cached payload, selected with `format`. The raw
+// Twitter payload stays the only thing stored, whatever the format.
+export const FORMATS = ['simple', 'rss', 'atom', 'jsonfeed'] as const
+
+export type Format = typeof FORMATS[number]
+
+const TRANSFORMS: Record<'simple', (payload: Payload) => Payload> = {
+  simple: simplify,
+}
+
+// Feeds are serialized in their own schema rather than transformed
+const RENDERERS: Record<Exclude<Format, 'simple'>, typeof renderRss> = {
+  rss: renderRss,
+  atom: renderAtom,
+  jsonfeed: renderJsonFeed,
+}
+
+// Renders the request's payload in `format`, after its own transform. Feeds
+// list an account's tweets, so only requests for an account have formats.
+export const withFormat = (
+  options: AccountFetchOptions,
+  format?: Format,
+): CachedFetchOptions => {
+  if (format === undefined) {
+    return options
+  }
+  const { transform, userid, endpoint } = options
+  if (format === 'simple') {
+    const reshape = TRANSFORMS[format]
+    return {
+      ...options,
+      transform: (payload) =>
+        reshape(transform === undefined ? payload : transform(payload)),
+    }
+  }
+  const render = RENDERERS[format]
+  return {
+    ...options,
+    render: (payload) =>
+      render(payload, accountFeed(payload, userid, endpoint)),
+  }
+}
+
+// Renders a payload that is not served through the cache, e.g. one assembled
+// from several entries, in `format`
+export const renderFormat = (
+  payload: Payload,
+  format: Format,
+  feed: FeedInfo,
+): Rendered =>
+  format === 'simple'
+    ? {
+        body: JSON.stringify(TRANSFORMS[format](payload)),
+        contentType: 'application/json',
+      }
+    : RENDERERS[format](payload, feed)
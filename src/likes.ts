@@ -0,0 +1,52 @@
+import {
+  AccountFetchOptions,
+  buildCacheKey,
+  QueryParams,
+  toQueryString,
+} from './cache'
+import { TWEET_FIELDS } from './timeline'
+import { Payload } from './types'
+
+const LIKES_DEFAULTS: QueryParams = { max_results: '20', ...TWEET_FIELDS }
+
+// The v2 liked_tweets endpoint has no since_id/max_id, so the README's
+// v1.1-style bounds are applied to the cached page instead.
+export const filterLikedTweets =
+  (sinceId?: string, maxId?: string) =>
+  (payload: Payload): Payload => {
+    if (!Array.isArray(payload.data)) {
+      return payload
+    }
+    const data = (payload.data as Array<{ id: string }>).filter(
+      (tweet) =>
+        (sinceId === undefined || BigInt(tweet.id) > BigInt(sinceId)) &&
+        (maxId === undefined || BigInt(tweet.id) <= BigInt(maxId)),
+    )
+    return {
+      ...payload,
+      data,
+      meta: { ...(payload.meta as Payload), result_count: data.length },
+    }
+  }
+
+// Describes the cached request for a user's liked tweets. Likes live in their
+// own namespace so they never collide with timelines.
+export const likesRequest = (
+  userid: string,
+  count: number,
+  sinceId?: string,
+  maxId?: string,
+): AccountFetchOptions => {
+  const params: QueryParams = { max_results: String(count), ...TWEET_FIELDS }
+  return {
+    cacheKey: buildCacheKey('likes/', userid, params, LIKES_DEFAULTS),
+    path: `/users/${userid}/liked_tweets?${toQueryString(params)}`,
+    userid,
+    endpoint: 'likes',
+    metadata: { lookup: 'likes' },
+    transform:
+      sinceId === undefined && maxId === undefined
+        ? undefined
+        : filterLikedTweets(sinceId, maxId),
+  }
+}
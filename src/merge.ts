@@ -0,0 +1,45 @@
+import { Payload } from './types'
+
+// Merges several accounts' timelines into one, for the homepage feed
+
+interface Tweet {
+  id: string
+  created_at?: string
+}
+
+interface User {
+  id: string
+}
+
+// Newest first by created_at, falling back on IDs, which Twitter allocates in
+// time order
+const newestFirst = (a: Tweet, b: Tweet) => {
+  const byDate = Date.parse(b.created_at ?? '') - Date.parse(a.created_at ?? '')
+  if (!isNaN(byDate) && byDate !== 0) {
+    return byDate
+  }
+  const [newer, older] = [BigInt(b.id), BigInt(a.id)]
+  return newer > older ? 1 : newer < older ? -1 : 0
+}
+
+// One timeline listing every tweet and every author once
+export const mergeTimelines = (payloads: Payload[]): Payload => {
+  const tweets = new Map<string, Tweet>()
+  const users = new Map<string, User>()
+  for (const payload of payloads) {
+    const data = Array.isArray(payload.data) ? (payload.data as Tweet[]) : []
+    for (const tweet of data) {
+      tweets.set(tweet.id, tweet)
+    }
+    const includes = payload.includes as { users?: User[] } | undefined
+    for (const user of includes?.users ?? []) {
+      users.set(user.id, user)
+    }
+  }
+  const data = Array.from(tweets.values()).sort(newestFirst)
+  return {
+    data,
+    includes: { users: Array.from(users.values()) },
+    meta: { result_count: data.length },
+  }
+}
@@ -0,0 +1,119 @@
+import { AccountFetchOptions, CachedFetchOptions, cachedFetch } from './cache'
+import { respondError } from './errors'
+import { withFormat } from './formats'
+import { corsHeaders, respond, respondInvalid } from './response'
+import { Handler, RouteContext, RouteHandler } from './router'
+import { isTrustedCaller } from './ttl'
+import { resolveUsername } from './twitter'
+import { RequestParams, validateParams } from './validation'
+
+// Middleware shared by every route
+
+// Answers CORS preflights and rejects anything but GET, before routing
+export const cors = (request: Request): Response | null => {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: { ...corsHeaders, Allow: 'GET' },
+    })
+  }
+  if (request.method !== 'GET') {
+    console.log('Method Not Allowed')
+    return new Response('Method Not Allowed', {
+      status: 405,
+      headers: { ...corsHeaders, Allow: 'GET' },
+    })
+  }
+  return null
+}
+
+// Validates path and query parameters together, path parameters taking
+// precedence, and rejects malformed input before it reaches R2 or Twitter
+export const validated =
+  (handler: Handler): RouteHandler =>
+  async (route) => {
+    const searchParams = new URLSearchParams(route.url.searchParams)
+    for (const [name, value] of Object.entries(route.params)) {
+      searchParams.set(name, value)
+    }
+    const validation = validateParams(searchParams)
+    if ('errors' in validation) {
+      return respondInvalid(validation.errors)
+    }
+    const { params } = validation
+    if (
+      params.max_age !== undefined &&
+      !isTrustedCaller(route.request, route.env)
+    ) {
+      return respond({ error: 'max_age requires a trusted API key' }, 403)
+    }
+    return handler({ ...route, query: params })
+  }
+
+// Rejects the given parameters on routes that would otherwise ignore them
+const unsupported =
+  (fields: (keyof RequestParams)[]) =>
+  (handler: Handler): Handler =>
+  async (context) => {
+    const given = fields.filter((field) => context.query[field] !== undefined)
+    if (given.length > 0) {
+      return respondInvalid(
+        given.map((field) => ({
+          field,
+          message: 'is not supported on this route',
+        })),
+      )
+    }
+    return handler(context)
+  }
+
+// For routes serving payloads that are not an account's own tweets, which
+// neither render in a format nor take the account's profile
+export const rawOnly = unsupported(['format', 'include'])
+
+// For routes listing tweets without a single account to take the profile of,
+// or liked by the account rather than its own
+export const withoutInclude = unsupported(['include'])
+
+// Resolves a handle to its user ID, or to the response explaining why it
+// cannot be
+export const resolveUser = async (
+  { env }: RouteContext,
+  username: string,
+): Promise<{ userid: string } | { response: Response }> => {
+  let resolved: string | null
+  try {
+    resolved = await resolveUsername(username, env)
+  } catch (e) {
+    console.log('Error resolving username: ', e)
+    return { response: respondError('Failed to resolve username', e) }
+  }
+  if (resolved === null) {
+    return {
+      response: respond({ error: `User not found: ${username}` }, 404),
+    }
+  }
+  return { userid: resolved }
+}
+
+// Fetches an entry making up only part of the response, through the cache,
+// without the caller's conditional headers, which are meant for the whole
+// response
+export const fetchPart = (
+  { url, env, ctx }: RouteContext,
+  options: CachedFetchOptions,
+): Promise<Response> =>
+  cachedFetch(new Request(url.toString()), env, options, ctx)
+
+// Serves an account's payload through the cache, honoring the `max_age` and
+// `format` of the request
+export const serveCached = (
+  { request, env, ctx, query }: RouteContext,
+  options: AccountFetchOptions,
+): Promise<Response> =>
+  cachedFetch(
+    request,
+    env,
+    withFormat({ ...options, maxAge: query.max_age }, query.format),
+    ctx,
+  )
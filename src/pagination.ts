@@ -0,0 +1,14 @@
+import { Payload } from './types'
+
+// Adds `next_cursor` when Twitter reports another page. The oldest tweet ID of
+// the page never expires, unlike `meta.next_token`, and always maps the next
+// page onto the same cache entry.
+export const addNextCursor = (payload: Payload): Payload => {
+  const meta = payload.meta as
+    | { next_token?: string; oldest_id?: string }
+    | undefined
+  if (!meta?.next_token || !meta.oldest_id) {
+    return payload
+  }
+  return { ...payload, next_cursor: meta.oldest_id }
+}
@@ -0,0 +1,68 @@
+import { coalescedRefresh } from './cache'
+import { CircuitOpenError } from './circuit'
+import { setting, sleep } from './settings'
+import { timelineRequest } from './timeline'
+import { resolveUsername, TwitterHttpError } from './twitter'
+import { Env } from './types'
+
+// Pause between accounts so a run never bursts through the rate limit
+const DEFAULT_DELAY_MS = 1_000
+
+export interface PrewarmResult {
+  account: string
+  userid?: string
+  ok: boolean
+  error?: string
+}
+
+// Refreshes the default timeline entry of every account in PREWARM_ACCOUNTS,
+// a comma separated list of user IDs and/or handles. Accounts are refreshed one
+// at a time; a 429 from Twitter or an open circuit skips the rest of the run.
+export const prewarm = async (env: Env): Promise<PrewarmResult[]> => {
+  const accounts = (env.PREWARM_ACCOUNTS || '')
+    .split(',')
+    .map((account) => account.trim().replace(/^@/, ''))
+    .filter(Boolean)
+  const delayMs = setting(env.PREWARM_DELAY_MS, DEFAULT_DELAY_MS)
+
+  const results: PrewarmResult[] = []
+  for (const [index, account] of accounts.entries()) {
+    if (index > 0 && delayMs > 0) {
+      await sleep(delayMs)
+    }
+
+    try {
+      const userid = /^\d+$/.test(account)
+        ? account
+        : await resolveUsername(account, env)
+      if (userid === null) {
+        throw new Error('User not found')
+      }
+      await coalescedRefresh(env, timelineRequest(userid))
+      console.log(`Prewarmed ${account} (userid ${userid})`)
+      results.push({ account, userid, ok: true })
+    } catch (e) {
+      console.log(`Failed to prewarm ${account}: `, e)
+      results.push({ account, ok: false, error: String(e) })
+
+      if (
+        (e instanceof TwitterHttpError && e.status === 429) ||
+        e instanceof CircuitOpenError
+      ) {
+        console.log(
+          e instanceof CircuitOpenError
+            ? 'Circuit open, skipping remaining accounts'
+            : 'Rate limited by Twitter, skipping remaining accounts',
+        )
+        for (const skipped of accounts.slice(index + 1)) {
+          results.push({ account: skipped, ok: false, error: 'Skipped' })
+        }
+        break
+      }
+    }
+  }
+
+  const succeeded = results.filter((result) => result.ok).length
+  console.log(`Prewarm finished: ${succeeded}/${accounts.length} accounts`)
+  return results
+}
@@ -0,0 +1,95 @@
+import { Env } from './types'
+
+// Twitter reports the request budget of each endpoint, per app token, in
+// x-rate-limit-* headers. The last reported budget is kept in R2 so every
+// isolate stops calling Twitter once it is exhausted, until the window resets.
+
+export interface RateLimitState {
+  limit?: number
+  remaining: number
+  // Epoch seconds at which the budget is restored
+  reset: number
+  // Set when the token was rejected rather than rate limited, so it is still
+  // tried when no other token is left
+  rejected?: boolean
+}
+
+// Collapses IDs and handles so every user shares the endpoint's budget
+export const rateLimitEndpoint = (path: string): string =>
+  path
+    .split('?')[0]
+    .replace(/\/users\/by\/username\/[^/]+/, '/users/by/username/:username')
+    .replace(/\/\d+(?=\/|$)/g, '/:id')
+
+// Identifies a bearer token without storing it
+const tokenFingerprint = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token),
+  )
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export const rateLimitKey = async (
+  token: string,
+  path: string,
+): Promise<string> =>
+  `ratelimits/${await tokenFingerprint(token)}/${encodeURIComponent(
+    rateLimitEndpoint(path),
+  )}.json`
+
+const header = (headers: Headers, name: string): number | undefined => {
+  const value = headers.get(name)
+  return value !== null && /^\d+$/.test(value) ? Number(value) : undefined
+}
+
+// Returns null unless Twitter reported both the remaining budget and its reset
+export const parseRateLimit = (headers: Headers): RateLimitState | null => {
+  const remaining = header(headers, 'x-rate-limit-remaining')
+  const reset = header(headers, 'x-rate-limit-reset')
+  if (remaining === undefined || reset === undefined) {
+    return null
+  }
+  return { limit: header(headers, 'x-rate-limit-limit'), remaining, reset }
+}
+
+// When the budget is spent and its window has not reset yet, returns the reset
+export const exhaustedUntil = (state: RateLimitState): Date | null =>
+  !state.rejected && state.remaining <= 0 && state.reset * 1000 > Date.now()
+    ? new Date(state.reset * 1000)
+    : null
+
+// Requests left in the current window, unlimited when unknown or reset
+export const remainingBudget = (state: RateLimitState | null): number =>
+  state === null || state.reset * 1000 <= Date.now()
+    ? Infinity
+    : state.remaining
+
+export const readRateLimit = async (
+  env: Env,
+  key: string,
+): Promise<RateLimitState | null> => {
+  try {
+    const object = await env.MY_BUCKET.get(key)
+    return object === null ? null : await new Response(object.body).json()
+  } catch (e) {
+    console.log('Error reading rate limit state from R2:', e)
+    return null
+  }
+}
+
+export const writeRateLimit = async (
+  env: Env,
+  key: string,
+  state: RateLimitState,
+): Promise<void> => {
+  try {
+    await env.MY_BUCKET.put(key, JSON.stringify(state), {
+      customMetadata: { 'Content-Type': 'application/json' },
+    })
+  } catch (e) {
+    console.log('Error storing rate limit state to R2:', e)
+  }
+}
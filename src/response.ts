@@ -0,0 +1,32 @@
+import { FieldError } from './validation'
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,HEAD,POST,OPTIONS',
+  'Access-Control-Max-Age': '86400',
+}
+
+export const respond = (
+  response: Record<string, unknown>,
+  code?: number,
+  headers?: Record<string, string>,
+): Response =>
+  new Response(JSON.stringify(response), {
+    headers: { 'content-type': 'application/json', ...corsHeaders, ...headers },
+    status: code,
+  })
+
+// Rejects a request listing every offending field, before any cache or Twitter
+// access
+export const respondInvalid = (fields: FieldError[]): Response =>
+  respond({ error: 'Invalid request parameters', fields }, 400)
+
+// Serves an already serialized JSON body, e.g. straight out of R2
+export const respondRaw = (
+  body: BodyInit,
+  headers?: Record<string, string>,
+): Response =>
+  new Response(body, {
+    headers: { 'content-type': 'application/json', ...corsHeaders, ...headers },
+    status: 200,
+  })
@@ -0,0 +1,103 @@
+import { setting, sleep } from './settings'
+import { Env } from './types'
+
+// Twitter calls are all idempotent GETs, so failures that may be transient are
+// retried with exponential backoff, as long as the total deadline allows it.
+const DEFAULT_TIMEOUT_MS = 5_000
+const DEFAULT_RETRIES = 2
+const DEFAULT_DEADLINE_MS = 10_000
+// Upper bound of the first backoff, doubled on every retry
+const BASE_BACKOFF_MS = 100
+
+const RETRY_STATUSES = [500, 502, 503, 504]
+
+// Thrown when Twitter does not answer before an attempt times out, or before
+// the total deadline expires
+export class UpstreamTimeoutError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UpstreamTimeoutError'
+  }
+}
+
+export interface RetryPolicy {
+  // Milliseconds a single attempt may take
+  timeoutMs: number
+  // Attempts made after the first one fails
+  retries: number
+  // Epoch milliseconds after which no attempt is started or awaited
+  deadline: number
+}
+
+// Reads TWITTER_TIMEOUT_MS, TWITTER_RETRIES and TWITTER_DEADLINE_MS, starting
+// the deadline now
+export const retryPolicy = (env: Env): RetryPolicy => ({
+  timeoutMs: setting(env.TWITTER_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+  retries: setting(env.TWITTER_RETRIES, DEFAULT_RETRIES),
+  deadline: Date.now() + setting(env.TWITTER_DEADLINE_MS, DEFAULT_DEADLINE_MS),
+})
+
+// Full jitter: anywhere between no delay and the exponential backoff, so
+// isolates retrying together do not hit Twitter together
+const backoff = (attempt: number) =>
+  Math.random() * BASE_BACKOFF_MS * 2 ** attempt
+
+// Fetches `url`, retrying 5xx answers and network failures. Once retries or
+// the deadline run out, the last 5xx answer is returned, or the last failure
+// thrown. The body is read before the attempt's timer is cleared, so a body
+// that stalls times out like an answer that never comes; the response
+// returned is already buffered.
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy,
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const remaining = policy.deadline - Date.now()
+    if (remaining <= 0) {
+      throw new UpstreamTimeoutError(
+        'Twitter did not answer before the deadline',
+      )
+    }
+
+    const delay = backoff(attempt)
+    const mayRetry = () =>
+      attempt < policy.retries && Date.now() + delay < policy.deadline
+
+    const controller = new AbortController()
+    const timer = setTimeout(
+      () => controller.abort(),
+      Math.min(policy.timeoutMs, remaining),
+    )
+    let failure: unknown
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal })
+      if (!RETRY_STATUSES.includes(response.status) || !mayRetry()) {
+        return new Response(
+          response.body === null ? null : await response.arrayBuffer(),
+          {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+          },
+        )
+      }
+      // An unread body would keep its connection open
+      await response.body?.cancel()
+      failure = `HTTP ${response.status}`
+    } catch (e) {
+      const error = controller.signal.aborted
+        ? new UpstreamTimeoutError('Twitter did not answer in time')
+        : e
+      if (!mayRetry()) {
+        throw error
+      }
+      failure = error
+    } finally {
+      clearTimeout(timer)
+    }
+
+    console.log(`Retrying in ${Math.round(delay)}ms after ${failure}`)
+    await sleep(delay)
+  }
+}
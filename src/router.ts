@@ -0,0 +1,79 @@
+import { Env } from './types'
+import { RequestParams } from './validation'
+
+// A request matched to a route, before its parameters are validated
+export interface RouteRequest {
+  request: Request
+  env: Env
+  ctx?: ExecutionContext
+  url: URL
+  // Path parameters, e.g. `userid` for /v1/users/:userid/tweets
+  params: Record<string, string>
+}
+
+// A request whose path and query parameters passed validation
+export interface RouteContext extends RouteRequest {
+  query: RequestParams
+}
+
+export type RouteHandler = (route: RouteRequest) => Promise<Response>
+
+export type Handler = (context: RouteContext) => Promise<Response>
+
+export interface Route {
+  // Path with `:name` segments, e.g. /v1/tweets/:tweetid
+  pattern: string
+  handler: RouteHandler
+}
+
+export interface MatchedRoute {
+  handler: RouteHandler
+  params: Record<string, string>
+}
+
+interface CompiledRoute {
+  regex: RegExp
+  handler: RouteHandler
+}
+
+// A trailing slash is optional on every route
+const compile = ({ pattern, handler }: Route): CompiledRoute => ({
+  regex: new RegExp(
+    `^${pattern
+      .replace(/\/$/, '')
+      .replace(/:([A-Za-z_]+)/g, '(?<$1>[^/]+)')}/?$`,
+  ),
+  handler,
+})
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value)
+  } catch (e) {
+    // Left encoded, for validation to reject
+    return value
+  }
+}
+
+// Matches a pathname against routes in order, returning the first handler
+// that applies with its path parameters, or null when none does
+export const createRouter = (
+  routes: Route[],
+): ((pathname: string) => MatchedRoute | null) => {
+  const compiled = routes.map(compile)
+  return (pathname) => {
+    for (const { regex, handler } of compiled) {
+      const match = regex.exec(pathname)
+      if (match !== null) {
+        const params = Object.fromEntries(
+          Object.entries(match.groups ?? {}).map(([name, value]) => [
+            name,
+            decode(value),
+          ]),
+        )
+        return { handler, params }
+      }
+    }
+    return null
+  }
+}
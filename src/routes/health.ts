@@ -0,0 +1,14 @@
+import { circuitStatus } from '../circuit'
+import { respond } from '../response'
+import { RouteHandler } from '../router'
+
+// GET /v1/health. The worker itself is up whenever it answers; `degraded`
+// means Twitter calls are suspended, or being probed, so mostly cached data
+// is served.
+export const health: RouteHandler = async ({ env }) => {
+  const circuit = await circuitStatus(env)
+  return respond({
+    status: circuit.state === 'closed' ? 'ok' : 'degraded',
+    circuit,
+  })
+}
@@ -0,0 +1,31 @@
+import { resolveUser, withoutInclude } from '../middleware'
+import { Handler } from '../router'
+import { userLikes } from './likes'
+import { userTweets } from './timeline'
+
+// Default to MoonwellDeFi's Twitter account if neither userid nor username is provided
+// Mamo_agent's Twitter ID: 1883305846995845120
+const DEFAULT_USERID = '1472197491844026370' // @MoonwellDeFi
+
+const lookup: Handler = async (context) => {
+  const { query } = context
+  let userid = query.userid || DEFAULT_USERID
+  if (query.username !== undefined && query.userid === undefined) {
+    const resolved = await resolveUser(context, query.username)
+    if ('response' in resolved) {
+      return resolved.response
+    }
+    userid = resolved.userid
+  }
+
+  const handler = query.lookup === 'likes' ? userLikes : userTweets
+  return handler({ ...context, params: { ...context.params, userid } })
+}
+
+// GET /?userid=, the original query string API, served by the same handlers
+// as /v1/users/:userid/tweets and /v1/users/:userid/likes, and rejecting what
+// they reject before resolving the username
+export const legacy: Handler = (context) =>
+  context.query.lookup === 'likes'
+    ? withoutInclude(lookup)(context)
+    : lookup(context)
@@ -0,0 +1,12 @@
+import { likesRequest } from '../likes'
+import { serveCached } from '../middleware'
+import { Handler } from '../router'
+
+// GET /v1/users/:userid/likes
+export const userLikes: Handler = (context) => {
+  const { params, query } = context
+  return serveCached(
+    context,
+    likesRequest(params.userid, query.count, query.since_id, query.max_id),
+  )
+}
@@ -0,0 +1,29 @@
+import { cachedFetch } from '../cache'
+import { respond, respondInvalid } from '../response'
+import { Handler } from '../router'
+import { allowedQueries, searchRequest } from '../search'
+
+// Twitter's lower bound for recent search page sizes
+const MIN_SEARCH_RESULTS = 10
+
+// GET /v1/search/recent?query=, for the queries SEARCH_QUERIES allows
+export const searchRecent: Handler = async ({ request, env, ctx, query }) => {
+  if (query.query === undefined) {
+    return respondInvalid([{ field: 'query', message: 'is required' }])
+  }
+  if (!allowedQueries(env).has(query.query)) {
+    return respond({ error: `Query is not allowed: ${query.query}` }, 403)
+  }
+  return cachedFetch(
+    request,
+    env,
+    {
+      ...searchRequest(
+        query.query,
+        Math.max(query.max_results, MIN_SEARCH_RESULTS),
+      ),
+      maxAge: query.max_age,
+    },
+    ctx,
+  )
+}
@@ -0,0 +1,26 @@
+import { QueryParams } from '../cache'
+import { serveCached } from '../middleware'
+import { Handler } from '../router'
+import { timelineRequest } from '../timeline'
+import { withProfile } from './users'
+
+// GET /v1/users/:userid/tweets
+export const userTweets: Handler = async (context) => {
+  const { params, query } = context
+  const timelineQuery: QueryParams = {
+    max_results: String(query.max_results),
+    exclude: query.exclude,
+    pagination_token: query.pagination_token,
+    since_id: query.since_id,
+    until_id: query.until_id,
+    start_time: query.start_time,
+    end_time: query.end_time,
+  }
+  const options = timelineRequest(params.userid, timelineQuery)
+  return serveCached(
+    context,
+    query.include === 'profile'
+      ? await withProfile(context, options, params.userid)
+      : options,
+  )
+}
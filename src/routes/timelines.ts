@@ -0,0 +1,99 @@
+import { CacheStatus, serve } from '../cache'
+import { mergedFeed } from '../feed'
+import { renderFormat } from '../formats'
+import { mergeTimelines } from '../merge'
+import { fetchPart } from '../middleware'
+import { respond, respondInvalid } from '../response'
+import { Handler } from '../router'
+import { timelineRequest } from '../timeline'
+import { cacheTtl } from '../ttl'
+import { Payload } from '../types'
+
+// The merged timeline takes the least fresh status of its accounts
+const STATUS_PRECEDENCE: CacheStatus[] = [
+  'stale-on-error',
+  'stale-revalidating',
+  'miss',
+  'fresh',
+]
+
+// GET /v1/timelines?userids=, the default timelines of several accounts as one.
+// Each account is served from its own `${userid}.json` entry, so only stale
+// entries are refreshed, and an account that fails is reported in `errors`
+// instead of failing the others. Formats render the merged timeline as one
+// feed.
+export const timelines: Handler = async (context) => {
+  const { request, url, env, query } = context
+  const { userids, format } = query
+  if (userids === undefined) {
+    return respondInvalid([{ field: 'userids', message: 'is required' }])
+  }
+
+  const results = await Promise.all(
+    userids.map(async (userid) => {
+      const response = await fetchPart(context, {
+        ...timelineRequest(userid),
+        maxAge: query.max_age,
+      })
+      const body: Payload = await response.json()
+      return {
+        userid,
+        status: response.status,
+        body,
+        cacheStatus: response.headers.get('X-Cache-Status') as CacheStatus,
+        uploaded: new Date(response.headers.get('Last-Modified') ?? Date.now()),
+        ttl: cacheTtl(env, 'timeline', userid, query.max_age),
+      }
+    }),
+  )
+
+  const fetched = results.filter(({ status }) => status === 200)
+  const errors = results
+    .filter(({ status }) => status !== 200)
+    .map(({ userid, status, body }) => ({ userid, status, ...body }))
+  if (fetched.length === 0) {
+    return respond(
+      { error: 'No timeline could be fetched', errors },
+      errors[0].status,
+    )
+  }
+  const merged = {
+    ...mergeTimelines(fetched.map(({ body }) => body)),
+    errors: errors.length > 0 ? errors : undefined,
+  }
+
+  // Like batch lookups, the oldest entry ages the response and the newest
+  // dates it. Accounts that failed make it as stale as a failed refresh.
+  const statuses = fetched.map(({ cacheStatus }) => cacheStatus)
+  const status =
+    errors.length > 0
+      ? 'stale-on-error'
+      : STATUS_PRECEDENCE.find((candidate) => statuses.includes(candidate)) ??
+        'fresh'
+  const times = fetched.map(({ uploaded }) => uploaded.getTime())
+  const ttl = {
+    fresh: Math.min(...fetched.map(({ ttl }) => ttl.fresh)),
+    stale: Math.min(...fetched.map(({ ttl }) => ttl.stale)),
+  }
+  return serve(
+    request,
+    JSON.stringify(merged),
+    status,
+    {
+      uploaded: new Date(Math.min(...times)),
+      modified: new Date(Math.max(...times)),
+      ttl,
+    },
+    {
+      render:
+        format === undefined
+          ? undefined
+          : (payload) =>
+              renderFormat(
+                payload,
+                format,
+                mergedFeed(payload, userids, url.toString()),
+              ),
+    },
+  )
+}
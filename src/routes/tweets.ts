@@ -0,0 +1,22 @@
+import { cachedFetch } from '../cache'
+import { respondInvalid } from '../response'
+import { Handler } from '../router'
+import { batchTweets, tweetRequest } from '../tweets'
+
+// GET /v1/tweets/:tweetid, as the raw Twitter payload since formats list an
+// account's tweets
+export const tweet: Handler = ({ request, env, ctx, params, query }) =>
+  cachedFetch(
+    request,
+    env,
+    { ...tweetRequest(params.tweetid), maxAge: query.max_age },
+    ctx,
+  )
+
+// GET /v1/tweets?ids=, up to 100 tweets sharing the entries of single lookups
+export const tweets: Handler = async ({ request, env, query }) => {
+  if (query.ids === undefined) {
+    return respondInvalid([{ field: 'ids', message: 'is required' }])
+  }
+  return batchTweets(request, env, query.ids, query.max_age)
+}
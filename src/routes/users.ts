@@ -0,0 +1,50 @@
+import { CachedFetchOptions, cachedFetch } from '../cache'
+import { fetchPart, resolveUser } from '../middleware'
+import { Handler, RouteContext } from '../router'
+import { Payload } from '../types'
+import { userRequest } from '../users'
+
+// GET /v1/users/:userid
+export const userProfile: Handler = ({ request, env, ctx, params, query }) =>
+  cachedFetch(
+    request,
+    env,
+    { ...userRequest(params.userid), maxAge: query.max_age },
+    ctx,
+  )
+
+// GET /v1/users/by/:username, the profile of the user behind a handle
+export const userByUsername: Handler = async (context) => {
+  const resolved = await resolveUser(context, context.params.username)
+  if ('response' in resolved) {
+    return resolved.response
+  }
+  return userProfile({
+    ...context,
+    params: { ...context.params, userid: resolved.userid },
+  })
+}
+
+// Adds the cached profile of `userid` to the payloads of `options`, as
+// `profile`. A profile that cannot be had is left out rather than failing the
+// whole response.
+export const withProfile = async <T extends CachedFetchOptions>(
+  context: RouteContext,
+  options: T,
+  userid: string,
+): Promise<T> => {
+  const response = await fetchPart(context, userRequest(userid))
+  if (!response.ok) {
+    console.log(`Leaving out the profile of userid ${userid}`)
+    return options
+  }
+  const { data: profile }: Payload = await response.json()
+  const { transform } = options
+  return {
+    ...options,
+    transform: (payload) => ({
+      ...(transform === undefined ? payload : transform(payload)),
+      profile,
+    }),
+  }
+}
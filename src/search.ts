@@ -0,0 +1,56 @@
+import {
+  buildCacheKey,
+  CachedFetchOptions,
+  QueryParams,
+  toQueryString,
+} from './cache'
+import { TWEET_FIELDS } from './timeline'
+import { Env } from './types'
+
+// Recent search runs only the queries listed in SEARCH_QUERIES, so public
+// callers cannot spend the search quota on queries of their own.
+
+const SEARCH_DEFAULTS: QueryParams = { max_results: '10', ...TWEET_FIELDS }
+
+// Collapses whitespace, so `$WELL` and ` $WELL ` share one entry and one
+// allowlist line. Case is kept: Twitter only reads an uppercase `OR` as an
+// operator.
+export const normalizeQuery = (query: string): string =>
+  query.trim().replace(/\s+/g, ' ')
+
+// The normalized queries SEARCH_QUERIES allows, none when it is unset
+export const allowedQueries = (env: Env): Set<string> => {
+  if (!env.SEARCH_QUERIES) {
+    return new Set()
+  }
+  let queries: unknown
+  try {
+    queries = JSON.parse(env.SEARCH_QUERIES)
+  } catch (e) {
+    console.log('Ignoring malformed SEARCH_QUERIES:', e)
+    return new Set()
+  }
+  return new Set(
+    (Array.isArray(queries) ? queries : [])
+      .filter((query): query is string => typeof query === 'string')
+      .map(normalizeQuery),
+  )
+}
+
+// Describes the cached request for recent tweets matching a normalized query
+export const searchRequest = (
+  query: string,
+  maxResults: number,
+): CachedFetchOptions => {
+  const params: QueryParams = {
+    query,
+    max_results: String(maxResults),
+    ...TWEET_FIELDS,
+  }
+  return {
+    cacheKey: buildCacheKey('search/', 'recent', params, SEARCH_DEFAULTS),
+    path: `/tweets/search/recent?${toQueryString(params)}`,
+    endpoint: 'search',
+    metadata: { lookup: 'search' },
+  }
+}
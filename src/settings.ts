@@ -0,0 +1,15 @@
+// Helpers shared by the modules reading numeric env vars and pacing calls
+
+// Parses a numeric env var, falling back when it is unset, malformed or below
+// `min`
+export const setting = (
+  value: string | undefined,
+  fallback: number,
+  min = 0,
+): number => {
+  const parsed = parseInt(value || '', 10)
+  return isNaN(parsed) || parsed < min ? fallback : parsed
+}
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
@@ -0,0 +1,119 @@
+import { Payload } from './types'
+
+// The `format=simple` output: tweets joined with their author from
+// `includes.users`, ready to render without knowing Twitter's v2 layout.
+
+interface TwitterUrl {
+  url: string
+  expanded_url?: string
+}
+
+interface Tweet {
+  id: string
+  text: string
+  created_at?: string
+  author_id?: string
+  entities?: { urls?: TwitterUrl[] }
+  public_metrics?: Record<string, number>
+}
+
+interface User {
+  id: string
+  username: string
+  name?: string
+  profile_image_url?: string
+}
+
+export interface SimpleAuthor {
+  id: string
+  username: string
+  name?: string
+  avatar?: string
+}
+
+export interface SimpleTweet {
+  id: string
+  // Text with t.co links replaced by the URLs they point to
+  text: string
+  created_at?: string
+  permalink: string
+  author: SimpleAuthor | null
+  // Expanded URLs linked from the tweet, in order
+  urls: string[]
+  metrics: Record<string, number>
+}
+
+const METRIC_NAMES: Record<string, string> = {
+  retweet_count: 'retweets',
+  reply_count: 'replies',
+  like_count: 'likes',
+  quote_count: 'quotes',
+  bookmark_count: 'bookmarks',
+  impression_count: 'impressions',
+}
+
+// Twitter escapes these three in tweet text
+const decodeEntities = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+
+export const permalink = (id: string, username?: string): string =>
+  username === undefined
+    ? `https://twitter.com/i/web/status/${id}`
+    : `https://twitter.com/${username}/status/${id}`
+
+const expandUrls = (tweet: Tweet): string =>
+  (tweet.entities?.urls ?? []).reduce(
+    (text, { url, expanded_url }) =>
+      expanded_url ? text.split(url).join(expanded_url) : text,
+    decodeEntities(tweet.text),
+  )
+
+const metrics = (tweet: Tweet): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(tweet.public_metrics ?? {}).map(([name, value]) => [
+      METRIC_NAMES[name] ?? name,
+      value,
+    ]),
+  )
+
+// Flattens the tweets of a raw Twitter v2 payload
+export const simpleTweets = (payload: Payload): SimpleTweet[] => {
+  const tweets = Array.isArray(payload.data) ? (payload.data as Tweet[]) : []
+  const users = new Map(
+    ((payload.includes as { users?: User[] } | undefined)?.users ?? []).map(
+      (user) => [user.id, user],
+    ),
+  )
+  return tweets.map((tweet) => {
+    const user =
+      tweet.author_id === undefined ? undefined : users.get(tweet.author_id)
+    return {
+      id: tweet.id,
+      text: expandUrls(tweet),
+      created_at: tweet.created_at,
+      permalink: permalink(tweet.id, user?.username),
+      author:
+        user === undefined
+          ? null
+          : {
+              id: user.id,
+              username: user.username,
+              name: user.name,
+              avatar: user.profile_image_url,
+            },
+      urls: (tweet.entities?.urls ?? []).map(
+        ({ url, expanded_url }) => expanded_url ?? url,
+      ),
+      metrics: metrics(tweet),
+    }
+  })
+}
+
+// Transform behind `format=simple`, keeping `next_cursor` for pagination, and
+// the merged `profile` and `errors`, if any
+export const simplify = (payload: Payload): Payload => ({
+  tweets: simpleTweets(payload),
+  next_cursor: payload.next_cursor,
+  profile: payload.profile,
+  errors: payload.errors,
+})
@@ -0,0 +1,70 @@
+import { CircuitOpenError } from './circuit'
+import { UpstreamTimeoutError } from './retry'
+import { RateLimitError, TwitterHttpError, TwitterProblem } from './twitter'
+
+// Refreshes in flight in this isolate, keyed by cache key
+const inflight = new Map<string, Promise<unknown>>()
+
+// Runs `run` unless a call for the same key is already in flight, in which
+// case its result is shared instead
+export const singleFlight = <T>(
+  key: string,
+  run: () => Promise<T>,
+): Promise<T> => {
+  const pending = inflight.get(key)
+  if (pending !== undefined) {
+    console.log(`Joining refresh in flight for ${key}`)
+    return pending as Promise<T>
+  }
+  const promise = run().finally(() => inflight.delete(key))
+  inflight.set(key, promise)
+  return promise
+}
+
+export interface SerializedError {
+  name: string
+  message: string
+  status?: number
+  problem?: TwitterProblem
+  reset?: string
+}
+
+// Errors cross the Durable Object boundary as JSON, so callers can still tell
+// upstream HTTP failures and malformed bodies apart
+export const serializeError = (e: unknown): SerializedError => {
+  if (e instanceof RateLimitError || e instanceof CircuitOpenError) {
+    return { name: e.name, message: e.message, reset: e.reset.toISOString() }
+  }
+  if (e instanceof TwitterHttpError) {
+    return {
+      name: e.name,
+      message: e.message,
+      status: e.status,
+      problem: e.problem,
+    }
+  }
+  if (e instanceof Error) {
+    return { name: e.name, message: e.message }
+  }
+  return { name: 'Error', message: String(e) }
+}
+
+export const deserializeError = (error: SerializedError): Error => {
+  if (error.name === 'RateLimitError' && error.reset !== undefined) {
+    return new RateLimitError(new Date(error.reset))
+  }
+  if (error.name === 'TwitterHttpError' && error.status !== undefined) {
+    const statusText = error.message.replace(/^HTTP \d+: /, '')
+    return new TwitterHttpError(error.status, statusText, error.problem)
+  }
+  if (error.name === 'CircuitOpenError' && error.reset !== undefined) {
+    return new CircuitOpenError(new Date(error.reset))
+  }
+  if (error.name === 'UpstreamTimeoutError') {
+    return new UpstreamTimeoutError(error.message)
+  }
+  if (error.name === 'SyntaxError') {
+    return new SyntaxError(error.message)
+  }
+  return new Error(error.message)
+}
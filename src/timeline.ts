@@ -0,0 +1,37 @@
+import {
+  AccountFetchOptions,
+  buildCacheKey,
+  QueryParams,
+  toQueryString,
+} from './cache'
+import { addNextCursor } from './pagination'
+
+export const TWEET_FIELDS: QueryParams = {
+  'tweet.fields': 'created_at,entities,public_metrics',
+  expansions: 'author_id',
+  'user.fields': 'profile_image_url,username',
+}
+
+const TIMELINE_DEFAULTS: QueryParams = { max_results: '6', ...TWEET_FIELDS }
+
+// Describes the cached request for a page of a user's tweets. Without any
+// query beyond the defaults this is the `${userid}.json` entry.
+export const timelineRequest = (
+  userid: string,
+  query: QueryParams = {},
+): AccountFetchOptions => {
+  // Every response-shaping parameter is part of the key to prevent cache
+  // collisions, which also gives each page its own entry
+  const params: QueryParams = {
+    max_results: TIMELINE_DEFAULTS.max_results,
+    ...query,
+    ...TWEET_FIELDS,
+  }
+  return {
+    cacheKey: buildCacheKey('', userid, params, TIMELINE_DEFAULTS),
+    path: `/users/${userid}/tweets?${toQueryString(params)}`,
+    userid,
+    endpoint: 'timeline',
+    transform: addNextCursor,
+  }
+}
@@ -0,0 +1,105 @@
+import { Env } from './types'
+
+export type Endpoint = 'timeline' | 'likes' | 'user' | 'profile' | 'search'
+
+// Freshness windows in seconds when no env var overrides them. Timelines and
+// likes used to share a hardcoded 901 seconds; handle → ID mappings change far
+// less often. Profiles carry follower counts, so they are kept for hours
+// rather than a week. Search has the scarcest quota.
+const DEFAULT_TTL: Record<Endpoint, number> = {
+  timeline: 901,
+  likes: 901,
+  user: 604_800,
+  profile: 21_600,
+  search: 1_800,
+}
+
+const ENV_TTL: Record<Endpoint, keyof Env> = {
+  timeline: 'CACHE_TTL_TIMELINE',
+  likes: 'CACHE_TTL_LIKES',
+  user: 'CACHE_TTL_USER',
+  profile: 'CACHE_TTL_PROFILE',
+  search: 'CACHE_TTL_SEARCH',
+}
+
+// Stale objects stay servable, while refreshing in the background, for at
+// least this long
+const MIN_STALE_TTL = 3_600
+// `max_age` can never force refreshes more often than this
+const DEFAULT_MIN_MAX_AGE = 60
+
+export interface CacheTtl {
+  // Milliseconds an object is served without refreshing
+  fresh: number
+  // Milliseconds an object may be served while it refreshes in the background
+  stale: number
+}
+
+const seconds = (value: unknown): number | undefined => {
+  const parsed =
+    typeof value === 'number' ? value : parseInt(String(value ?? ''), 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+// CACHE_TTL_OVERRIDES maps user IDs to either a TTL for all endpoints or to
+// per-endpoint TTLs, e.g. {"1883305846995845120": 300} or
+// {"1472197491844026370": {"likes": 3600}}
+const overrideTtl = (
+  env: Env,
+  endpoint: Endpoint,
+  userid?: string,
+): number | undefined => {
+  if (!env.CACHE_TTL_OVERRIDES || userid === undefined) {
+    return undefined
+  }
+  let overrides: Record<string, number | Partial<Record<Endpoint, number>>>
+  try {
+    overrides = JSON.parse(env.CACHE_TTL_OVERRIDES)
+  } catch (e) {
+    console.log('Ignoring malformed CACHE_TTL_OVERRIDES:', e)
+    return undefined
+  }
+  const override = overrides[userid]
+  return typeof override === 'object' && override !== null
+    ? seconds(override[endpoint])
+    : seconds(override)
+}
+
+// Resolves how long a cached object stays fresh, from most to least specific:
+// a `max_age` requested by a trusted caller, a per-user override, the
+// endpoint's env var and finally the built-in default.
+export const cacheTtl = (
+  env: Env,
+  endpoint: Endpoint,
+  userid?: string,
+  maxAge?: number,
+): CacheTtl => {
+  let fresh =
+    overrideTtl(env, endpoint, userid) ??
+    seconds(env[ENV_TTL[endpoint]]) ??
+    DEFAULT_TTL[endpoint]
+
+  if (maxAge !== undefined) {
+    // max_age can only ask for fresher data, and never fresher than the floor
+    const minMaxAge = seconds(env.MIN_MAX_AGE) ?? DEFAULT_MIN_MAX_AGE
+    fresh = Math.min(fresh, Math.max(maxAge, minMaxAge))
+    // A caller asking for fresher data should not get stale data instead
+    return { fresh: fresh * 1000, stale: fresh * 1000 }
+  }
+  return {
+    fresh: fresh * 1000,
+    stale: Math.max(fresh, MIN_STALE_TTL) * 1000,
+  }
+}
+
+// Milliseconds an upstream error payload is remembered, or undefined when
+// CACHE_TTL_ERRORS leaves negative caching disabled
+export const negativeTtl = (env: Env): number | undefined => {
+  const ttl = seconds(env.CACHE_TTL_ERRORS)
+  return ttl ? ttl * 1000 : undefined
+}
+
+// Whether the request carries the API key that unlocks `max_age`
+export const isTrustedCaller = (request: Request, env: Env): boolean =>
+  !!env.TRUSTED_API_KEY &&
+  request.headers.get('X-Api-Key') === env.TRUSTED_API_KEY
@@ -0,0 +1,203 @@
+import {
+  buildCacheKey,
+  CachedFetchOptions,
+  CacheStatus,
+  QueryParams,
+  readR2,
+  serve,
+  store,
+  tokenSlotHeader,
+  toQueryString,
+} from './cache'
+import { edgeGet, EdgeEntry } from './edge'
+import { respondError } from './errors'
+import { TWEET_FIELDS } from './timeline'
+import { cacheTtl } from './ttl'
+import { httpError, twitterFetch, TwitterHttpError } from './twitter'
+import { Env, Payload } from './types'
+
+interface Tweet {
+  id: string
+  author_id?: string
+}
+
+interface User {
+  id: string
+}
+
+// How Twitter reports each tweet it could not return, e.g. a deleted one
+interface TweetError {
+  value?: string
+  resource_id?: string
+  resource_type?: string
+  title?: string
+  detail?: string
+}
+
+// Describes the cached request for a single tweet, with the same fields and
+// expansions as timelines
+export const tweetRequest = (tweetid: string): CachedFetchOptions => {
+  const params: QueryParams = { ...TWEET_FIELDS }
+  return {
+    cacheKey: buildCacheKey('tweets/', tweetid, params, TWEET_FIELDS),
+    path: `/tweets/${tweetid}?${toQueryString(params)}`,
+    // Metrics change as fast as on timelines
+    endpoint: 'timeline',
+    metadata: { lookup: 'tweet' },
+  }
+}
+
+const readTweet = async (
+  env: Env,
+  tweetid: string,
+): Promise<EdgeEntry | null> => {
+  const { cacheKey } = tweetRequest(tweetid)
+  return (await edgeGet(cacheKey)) ?? readR2(env, cacheKey)
+}
+
+// Looks `ids` up in one call and stores every tweet on its own, shaped like
+// the single tweet payload so both lookups share entries
+const fetchTweets = async (
+  env: Env,
+  ids: string[],
+): Promise<{
+  entries: Map<string, EdgeEntry>
+  errors: TweetError[]
+  tokenSlot: number
+}> => {
+  const params: QueryParams = { ids: ids.join(','), ...TWEET_FIELDS }
+  const { response, slot } = await twitterFetch(
+    `/tweets?${toQueryString(params)}`,
+    env,
+  )
+  if (!response.ok) {
+    throw await httpError(response)
+  }
+  const payload: Payload = await response.json()
+  if (!Array.isArray(payload.data) && !Array.isArray(payload.errors)) {
+    throw new TwitterHttpError(response.status, 'Response has no data')
+  }
+  const tweets = (payload.data ?? []) as Tweet[]
+  const users =
+    (payload.includes as { users?: User[] } | undefined)?.users ?? []
+
+  const entries = new Map<string, EdgeEntry>()
+  await Promise.all(
+    tweets.map(async (tweet) => {
+      const body = JSON.stringify({
+        data: tweet,
+        includes: {
+          users: users.filter((user) => user.id === tweet.author_id),
+        },
+      })
+      await store(env, tweetRequest(tweet.id), body)
+      entries.set(tweet.id, { body, uploaded: new Date() })
+    }),
+  )
+  return {
+    entries,
+    errors: (payload.errors ?? []) as TweetError[],
+    tokenSlot: slot,
+  }
+}
+
+// Serves the tweets in `ids`, in that order. Tweets cached long enough ago
+// are looked up again, all in one Twitter call; the others come from their
+// entries. If that call fails, stale entries are served instead, and tweets
+// with none are reported in `errors`.
+export const batchTweets = async (
+  request: Request,
+  env: Env,
+  ids: string[],
+  maxAge?: number,
+): Promise<Response> => {
+  const ttl = cacheTtl(env, 'timeline', undefined, maxAge)
+  const entries = new Map<string, EdgeEntry>()
+  const cached = await Promise.all(ids.map((id) => readTweet(env, id)))
+  cached.forEach((entry, index) => {
+    if (entry !== null) {
+      entries.set(ids[index], entry)
+    }
+  })
+  const missing = ids.filter((id) => {
+    const entry = entries.get(id)
+    return (
+      entry === undefined || Date.now() - entry.uploaded.getTime() > ttl.fresh
+    )
+  })
+
+  let status: CacheStatus = 'fresh'
+  let errors: TweetError[] = []
+  let extraHeaders: Record<string, string> | undefined
+  if (missing.length > 0) {
+    console.log(
+      `Fetching ${missing.length} of ${ids.length} tweets from Twitter...`,
+    )
+    try {
+      const fetched = await fetchTweets(env, missing)
+      fetched.entries.forEach((entry, id) => entries.set(id, entry))
+      // Stale copies of tweets Twitter no longer returns are not served
+      for (const error of fetched.errors) {
+        const id = error.resource_id ?? error.value
+        if (id !== undefined && !fetched.entries.has(id)) {
+          entries.delete(id)
+        }
+      }
+      errors = fetched.errors
+      status = 'miss'
+      extraHeaders = tokenSlotHeader(fetched.tokenSlot)
+    } catch (e) {
+      console.log('Error fetching tweets from Twitter: ', e)
+      if (entries.size === 0) {
+        return respondError('Failed to fetch data and no cache available', e)
+      }
+      console.log('Returning stale cached tweets due to API error')
+      status = 'stale-on-error'
+      errors = missing
+        .filter((id) => !entries.has(id))
+        .map((id) => ({
+          value: id,
+          resource_id: id,
+          resource_type: 'tweet',
+          title: 'Unavailable',
+          detail: 'Twitter could not be reached and the tweet is not cached',
+        }))
+    }
+  }
+
+  const served = ids.flatMap((id) => {
+    const entry = entries.get(id)
+    return entry === undefined ? [] : [entry]
+  })
+  const payloads: Payload[] = served.map(({ body }) => JSON.parse(body))
+  const users = new Map<string, User>()
+  for (const payload of payloads) {
+    for (const user of (payload.includes as { users?: User[] } | undefined)
+      ?.users ?? []) {
+      users.set(user.id, user)
+    }
+  }
+  const body = {
+    data: payloads.map((payload) => payload.data),
+    includes: { users: Array.from(users.values()) },
+    errors: errors.length > 0 ? errors : undefined,
+    meta: { result_count: payloads.length },
+  }
+  // The oldest tweet served ages the whole response, the newest dates it
+  const uploaded = served.reduce(
+    (oldest, { uploaded }) => (uploaded < oldest ? uploaded : oldest),
+    new Date(),
+  )
+  const modified = served.reduce(
+    (newest, { uploaded }) => (uploaded > newest ? uploaded : newest),
+    new Date(0),
+  )
+  return serve(
+    request,
+    JSON.stringify(body),
+    status,
+    { uploaded, modified, ttl },
+    {},
+    extraHeaders,
+  )
+}
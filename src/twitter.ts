@@ -0,0 +1,325 @@
+import { guardCircuit, recordFailure, recordSuccess } from './circuit'
+import {
+  exhaustedUntil,
+  parseRateLimit,
+  rateLimitEndpoint,
+  rateLimitKey,
+  readRateLimit,
+  remainingBudget,
+  writeRateLimit,
+} from './ratelimit'
+import { fetchWithRetry, retryPolicy } from './retry'
+import { cacheTtl } from './ttl'
+import { Env, Payload } from './types'
+
+const API_BASE = 'https://api.twitter.com/2'
+
+// What Twitter said went wrong, from a problem body or its `errors` array
+export interface TwitterProblem {
+  // Problem type URI, e.g. https://api.twitter.com/2/problems/resource-not-found
+  type?: string
+  title?: string
+  detail?: string
+}
+
+// Thrown for non-2xx answers from the Twitter API
+export class TwitterHttpError extends Error {
+  constructor(
+    public status: number,
+    statusText: string,
+    public problem?: TwitterProblem,
+  ) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = 'TwitterHttpError'
+  }
+}
+
+type ProblemBody = TwitterProblem & {
+  errors?: (TwitterProblem & { message?: string })[]
+}
+
+// Extracts the problem from an error body. The first entry of `errors` is the
+// most specific, the top-level fields summarize it.
+export const problemOf = (body: unknown): TwitterProblem | undefined => {
+  if (typeof body !== 'object' || body === null) {
+    return undefined
+  }
+  const { type, title, detail, errors } = body as ProblemBody
+  const first = Array.isArray(errors) ? errors[0] : undefined
+  const problem = {
+    type: first?.type ?? type,
+    title: first?.title ?? title,
+    detail: first?.detail ?? first?.message ?? detail,
+  }
+  return Object.values(problem).some((value) => typeof value === 'string')
+    ? problem
+    : undefined
+}
+
+// Twitter v2 reports some failures, such as suspended or protected accounts,
+// with a 200 carrying only an `errors` array. Returns the error for payloads
+// without `data`, except empty results, which come with a zero result count.
+export const payloadError = (
+  response: Response,
+  payload: Payload,
+): TwitterHttpError | null => {
+  const meta = payload.meta as { result_count?: number } | undefined
+  if (
+    payload.data !== undefined ||
+    (payload.errors === undefined && meta?.result_count === 0)
+  ) {
+    return null
+  }
+  return new TwitterHttpError(
+    response.status,
+    'Response has no data',
+    problemOf(payload),
+  )
+}
+
+// Builds the error for a non-2xx answer, keeping whatever Twitter explained
+export const httpError = async (
+  response: Response,
+): Promise<TwitterHttpError> => {
+  let body: unknown
+  try {
+    body = await response.json()
+  } catch (e) {
+    // Not every error comes with a JSON body
+  }
+  return new TwitterHttpError(
+    response.status,
+    response.statusText,
+    problemOf(body),
+  )
+}
+
+// Thrown instead of calling Twitter while the endpoint's budget is exhausted,
+// and when Twitter itself answers with a 429
+export class RateLimitError extends TwitterHttpError {
+  constructor(public reset: Date) {
+    super(429, 'Too Many Requests')
+    this.name = 'RateLimitError'
+  }
+
+  // Seconds until the budget is restored, for the Retry-After header
+  get retryAfter(): number {
+    return Math.max(1, Math.ceil((this.reset.getTime() - Date.now()) / 1000))
+  }
+}
+
+// Configured bearer tokens, in slot order. TWITTER_BEARER_TOKENS takes a comma
+// or newline separated list, TWITTER_BEARER_TOKEN a single token.
+const bearerTokens = (env: Env): string[] => {
+  const tokens = (env.TWITTER_BEARER_TOKENS ?? '')
+    .split(/[,\n]/)
+    .map((token) => token.trim())
+    .filter(Boolean)
+  return tokens.length > 0 ? tokens : [env.TWITTER_BEARER_TOKEN]
+}
+
+// Statuses after which the request is retried with the next token
+const FAILOVER_STATUSES = [401, 403, 429]
+
+// Seconds a rejected token is tried last for, the length of Twitter's rate
+// limit windows
+const REJECTED_TOKEN_COOLDOWN = 15 * 60
+
+export interface TwitterResponse {
+  response: Response
+  // Index of the bearer token that answered, safe to expose
+  slot: number
+}
+
+// Calls the Twitter API with the token that has the most budget left for the
+// endpoint, failing over to the next one when a token is rejected or rate
+// limited. Tokens whose budget is exhausted are skipped until it resets, and
+// rejected ones are tried last for a while.
+// Outages, i.e. network failures, timeouts and 5xx answers, count towards
+// opening the circuit breaker, which stops all calls while it is open.
+export const twitterFetch = async (
+  path: string,
+  env: Env,
+): Promise<TwitterResponse> => {
+  const candidates = await Promise.all(
+    bearerTokens(env).map(async (token, slot) => {
+      const budgetKey = await rateLimitKey(token, path)
+      return {
+        token,
+        slot,
+        budgetKey,
+        budget: await readRateLimit(env, budgetKey),
+      }
+    }),
+  )
+  const resets = candidates
+    .map(({ budget }) => (budget === null ? null : exhaustedUntil(budget)))
+    .filter((reset): reset is Date => reset !== null)
+  const available = candidates
+    .filter(({ budget }) => budget === null || exhaustedUntil(budget) === null)
+    .sort(
+      (a, b) =>
+        remainingBudget(b.budget) - remainingBudget(a.budget) ||
+        a.slot - b.slot,
+    )
+  if (available.length === 0) {
+    const reset = new Date(Math.min(...resets.map((date) => date.getTime())))
+    console.log(
+      `Rate limit budget exhausted for ${rateLimitEndpoint(
+        path,
+      )}, skipping Twitter until ${reset.toISOString()}`,
+    )
+    throw new RateLimitError(reset)
+  }
+
+  const circuit = await guardCircuit(env)
+  let result: TwitterResponse
+  try {
+    result = await fetchWithFailover(path, env, available, resets)
+  } catch (e) {
+    // Being rate limited is not an outage
+    if (!(e instanceof RateLimitError)) {
+      await recordFailure(env, circuit)
+    }
+    throw e
+  }
+  await (result.response.status >= 500
+    ? recordFailure(env, circuit)
+    : recordSuccess(env, circuit))
+  return result
+}
+
+interface TokenCandidate {
+  token: string
+  slot: number
+  budgetKey: string
+}
+
+// Tries each candidate token in turn, until one is neither rejected nor rate
+// limited. `resets` collects when rate limited tokens get their budget back.
+const fetchWithFailover = async (
+  path: string,
+  env: Env,
+  candidates: TokenCandidate[],
+  resets: Date[],
+): Promise<TwitterResponse> => {
+  const twitterUrl = API_BASE + path
+  // One deadline covers every token and every retry
+  const policy = retryPolicy(env)
+  let result: TwitterResponse | undefined
+  for (const { token, slot, budgetKey } of candidates) {
+    console.log('About to fetch: ', twitterUrl)
+    const response = await fetchWithRetry(
+      twitterUrl,
+      {
+        headers: {
+          'content-type': 'application/json;charset=UTF-8',
+          Authorization: `Bearer ${token}`,
+        },
+      },
+      policy,
+    )
+
+    let state = parseRateLimit(response.headers)
+    if (state !== null && response.status === 429) {
+      // A 429 means the budget is spent, whatever the headers claim
+      state.remaining = 0
+      resets.push(new Date(state.reset * 1000))
+    } else if (FAILOVER_STATUSES.includes(response.status)) {
+      // Rejected tokens, like 429s without headers, report no budget.
+      // Recording none left puts them behind every other token until the
+      // cooldown ends, instead of first.
+      state = {
+        remaining: 0,
+        reset: Math.ceil(Date.now() / 1000) + REJECTED_TOKEN_COOLDOWN,
+        rejected: true,
+      }
+    }
+    if (state !== null) {
+      await writeRateLimit(env, budgetKey, state)
+    }
+    result = { response, slot }
+    if (!FAILOVER_STATUSES.includes(response.status)) {
+      return result
+    }
+    console.log(`Token slot ${slot} got HTTP ${response.status}`)
+  }
+
+  // Every token was rejected or rate limited
+  if (result?.response.status === 429 && resets.length > 0) {
+    throw new RateLimitError(
+      new Date(Math.min(...resets.map((date) => date.getTime()))),
+    )
+  }
+  return result as TwitterResponse
+}
+
+// Resolves a Twitter handle to its numeric user ID, caching the mapping in R2.
+// Returns null when Twitter does not know the handle.
+export const resolveUsername = async (
+  username: string,
+  env: Env,
+): Promise<string | null> => {
+  const cacheKey = `usernames/${username.toLowerCase()}.json`
+
+  let object: R2ObjectBody | null = null
+  try {
+    object = await env.MY_BUCKET.get(cacheKey)
+  } catch (e) {
+    console.log('Error reading username mapping from R2:', e)
+  }
+
+  let cached: { id: string } | null = null
+  if (object !== null) {
+    try {
+      cached = await new Response(object.body).json()
+    } catch (e) {
+      console.log('Error parsing cached username mapping:', e)
+    }
+  }
+  if (
+    cached !== null &&
+    object !== null &&
+    // Handle → ID mappings practically never change, so they use the long user TTL
+    object.uploaded.getTime() >= Date.now() - cacheTtl(env, 'user').fresh
+  ) {
+    return cached.id
+  }
+
+  let data: { data?: { id?: string } }
+  try {
+    const { response } = await twitterFetch(
+      `/users/by/username/${encodeURIComponent(username)}`,
+      env,
+    )
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw await httpError(response)
+    }
+    data = await response.json()
+  } catch (e) {
+    // A stale mapping is still correct in every realistic case
+    if (cached !== null) {
+      console.log('Returning stale username mapping due to API error')
+      return cached.id
+    }
+    throw e
+  }
+
+  // Twitter answers unknown handles with 200 and an `errors` array
+  const id = data.data?.id
+  if (!id) {
+    return null
+  }
+
+  try {
+    await env.MY_BUCKET.put(cacheKey, JSON.stringify({ id, username }), {
+      customMetadata: { username },
+    })
+  } catch (e) {
+    console.log('Error storing username mapping to R2:', e)
+  }
+  return id
+}
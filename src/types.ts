@@ -0,0 +1,41 @@
+export interface Env {
+  MY_BUCKET: R2Bucket
+  TWITTER_BEARER_TOKEN: string
+  // Comma separated bearer tokens, used instead of TWITTER_BEARER_TOKEN
+  TWITTER_BEARER_TOKENS?: string
+  // Comma separated user IDs and/or handles refreshed by the cron trigger
+  PREWARM_ACCOUNTS?: string
+  // Pause between prewarmed accounts, in milliseconds
+  PREWARM_DELAY_MS?: string
+  // Per-endpoint freshness windows, in seconds
+  CACHE_TTL_TIMELINE?: string
+  CACHE_TTL_LIKES?: string
+  CACHE_TTL_USER?: string
+  CACHE_TTL_PROFILE?: string
+  CACHE_TTL_SEARCH?: string
+  // JSON map of user ID to TTL seconds, or to per-endpoint TTL seconds
+  CACHE_TTL_OVERRIDES?: string
+  // Seconds an error payload from Twitter is remembered, disabled when unset
+  CACHE_TTL_ERRORS?: string
+  // JSON array of the recent search queries callers may run
+  SEARCH_QUERIES?: string
+  // API key that lets callers request fresher data through `max_age`
+  TRUSTED_API_KEY?: string
+  // Lower bound for `max_age`, in seconds
+  MIN_MAX_AGE?: string
+  // Milliseconds a single Twitter call may take, 5000 by default
+  TWITTER_TIMEOUT_MS?: string
+  // Retries of a Twitter call failing with a 5xx or a network error, 2 by default
+  TWITTER_RETRIES?: string
+  // Milliseconds all attempts of a Twitter call may take, 10000 by default
+  TWITTER_DEADLINE_MS?: string
+  // Consecutive Twitter outages that open the circuit breaker, 5 by default
+  CIRCUIT_FAILURE_THRESHOLD?: string
+  // Milliseconds the circuit stays open before probing, 30000 by default
+  CIRCUIT_COOLDOWN_MS?: string
+  // Coalesces concurrent refreshes of a cache key across isolates
+  REFRESH_COORDINATOR?: DurableObjectNamespace
+}
+
+// A decoded Twitter API response body
+export type Payload = Record<string, unknown>
@@ -0,0 +1,26 @@
+import {
+  AccountFetchOptions,
+  buildCacheKey,
+  QueryParams,
+  toQueryString,
+} from './cache'
+
+export const USER_FIELDS: QueryParams = {
+  'user.fields':
+    'created_at,description,pinned_tweet_id,profile_image_url,public_metrics,verified',
+  expansions: 'pinned_tweet_id',
+  'tweet.fields': 'created_at,entities,public_metrics',
+}
+
+// Describes the cached request for a user's profile. Profiles live in their
+// own namespace and TTL, apart from handle → ID mappings.
+export const userRequest = (userid: string): AccountFetchOptions => {
+  const params: QueryParams = { ...USER_FIELDS }
+  return {
+    cacheKey: buildCacheKey('users/', userid, params, USER_FIELDS),
+    path: `/users/${userid}?${toQueryString(params)}`,
+    userid,
+    endpoint: 'profile',
+    metadata: { lookup: 'user' },
+  }
+}
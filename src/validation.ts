@@ -0,0 +1,228 @@
+import { normalizeList } from './cache'
+import { Format, FORMATS } from './formats'
+import { normalizeQuery } from './search'
+
+// Twitter IDs are snowflakes: unsigned 64-bit integers, at most 19 digits
+const SNOWFLAKE_PATTERN = /^\d{1,19}$/
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/
+const INTEGER_PATTERN = /^\d+$/
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+// RFC 3339, which is what Twitter accepts for start_time/end_time
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+
+const LOOKUPS = ['likes']
+const INCLUDES = ['profile']
+const EXCLUDABLE = ['replies', 'retweets']
+// Twitter's limit for /2/tweets?ids=
+const MAX_IDS = 100
+// Each account of a merged timeline may cost a Twitter call
+const MAX_ACCOUNTS = 10
+// Twitter's limit for recent search queries
+const MAX_QUERY_LENGTH = 512
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export interface RequestParams {
+  userid?: string
+  username?: string
+  // Tweet to look up, from the /v1/tweets/:tweetid route
+  tweetid?: string
+  // Tweets to look up together, de-duplicated in request order
+  ids?: string[]
+  // Accounts whose timelines are merged, de-duplicated in request order
+  userids?: string[]
+  // Recent search query, normalized
+  query?: string
+  lookup?: 'likes'
+  // Merges the user's profile into timeline responses
+  include?: 'profile'
+  // Timeline page size, clamped to Twitter's 5-100
+  max_results: number
+  // Liked tweets page size, clamped to Twitter's 10-100
+  count: number
+  exclude?: string
+  pagination_token?: string
+  since_id?: string
+  until_id?: string
+  max_id?: string
+  start_time?: string
+  end_time?: string
+  // Requested freshness in seconds, honored for trusted callers only
+  max_age?: number
+  // Rendering of the payload, the raw Twitter payload when absent
+  format?: Format
+}
+
+// Timestamps are re-serialized in UTC without milliseconds, so equivalent
+// instants share one cache entry.
+const normalizeTimestamp = (value: string) =>
+  new Date(value).toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+// Validates and normalizes every query parameter the worker understands.
+// All invalid fields are reported at once; unknown parameters are ignored.
+export const validateParams = (
+  searchParams: URLSearchParams,
+): { params: RequestParams } | { errors: FieldError[] } => {
+  const errors: FieldError[] = []
+  const get = (field: string) => searchParams.get(field) || undefined
+
+  const matching = (field: string, pattern: RegExp, message: string) => {
+    const value = get(field)
+    if (value !== undefined && !pattern.test(value)) {
+      errors.push({ field, message })
+      return undefined
+    }
+    return value
+  }
+
+  const integer = (
+    field: string,
+    fallback: number,
+    min: number,
+    max: number,
+  ) => {
+    const value = matching(field, INTEGER_PATTERN, 'must be a positive integer')
+    return value === undefined
+      ? fallback
+      : Math.min(Math.max(parseInt(value, 10), min), max)
+  }
+
+  const timestamp = (field: string) => {
+    const value = matching(
+      field,
+      TIMESTAMP_PATTERN,
+      'must be an RFC 3339 timestamp',
+    )
+    if (value === undefined) {
+      return undefined
+    }
+    if (isNaN(Date.parse(value))) {
+      errors.push({ field, message: 'must be a valid date' })
+      return undefined
+    }
+    return normalizeTimestamp(value)
+  }
+
+  const snowflake = (field: string) =>
+    matching(
+      field,
+      SNOWFLAKE_PATTERN,
+      'must be a numeric ID of up to 19 digits',
+    )
+
+  const lookup = get('lookup')
+  if (lookup !== undefined && !LOOKUPS.includes(lookup)) {
+    errors.push({ field: 'lookup', message: `must be one of: ${LOOKUPS}` })
+  }
+
+  const include = get('include')
+  if (include !== undefined && !INCLUDES.includes(include)) {
+    errors.push({ field: 'include', message: `must be one of: ${INCLUDES}` })
+  }
+
+  const format = get('format')
+  if (
+    format !== undefined &&
+    !(FORMATS as readonly string[]).includes(format)
+  ) {
+    errors.push({ field: 'format', message: `must be one of: ${FORMATS}` })
+  }
+
+  const excludeParam = get('exclude')
+  const exclude = excludeParam ? normalizeList(excludeParam) : undefined
+  if (exclude?.split(',').some((item) => !EXCLUDABLE.includes(item))) {
+    errors.push({
+      field: 'exclude',
+      message: `must be a comma separated list of: ${EXCLUDABLE}`,
+    })
+  }
+
+  // A comma separated list of snowflakes, de-duplicated in request order
+  const snowflakes = (field: string, max: number) => {
+    const value = get(field)
+    if (value === undefined) {
+      return undefined
+    }
+    const list = Array.from(new Set(value.split(',').map((id) => id.trim())))
+    if (list.some((id) => !SNOWFLAKE_PATTERN.test(id))) {
+      errors.push({
+        field,
+        message: 'must be a comma separated list of numeric IDs',
+      })
+      return undefined
+    }
+    if (list.length > max) {
+      errors.push({ field, message: `must list at most ${max} IDs` })
+      return undefined
+    }
+    return list
+  }
+
+  const queryParam = get('query')
+  const query =
+    queryParam === undefined ? undefined : normalizeQuery(queryParam)
+  if (query !== undefined && query.length > MAX_QUERY_LENGTH) {
+    errors.push({
+      field: 'query',
+      message: `must be at most ${MAX_QUERY_LENGTH} characters`,
+    })
+  }
+
+  // `cursor` is the `next_cursor` handed out with each page and is shorthand
+  // for `until_id`
+  const cursor = snowflake('cursor')
+  const untilId = snowflake('until_id')
+  if (searchParams.has('cursor') && searchParams.has('until_id')) {
+    errors.push({
+      field: 'cursor',
+      message: 'cannot be combined with until_id',
+    })
+  }
+
+  const params: RequestParams = {
+    userid: snowflake('userid'),
+    username: matching(
+      'username',
+      USERNAME_PATTERN,
+      'must be 1-15 letters, digits or underscores',
+    ),
+    tweetid: snowflake('tweetid'),
+    ids: snowflakes('ids', MAX_IDS),
+    userids: snowflakes('userids', MAX_ACCOUNTS),
+    query: query || undefined,
+    lookup: lookup as RequestParams['lookup'],
+    include: include as RequestParams['include'],
+    max_results: integer('max_results', 6, 5, 100),
+    count: integer('count', 20, 10, 100),
+    exclude: exclude || undefined,
+    pagination_token: matching(
+      'pagination_token',
+      TOKEN_PATTERN,
+      'must be an opaque token of letters, digits, - or _',
+    ),
+    since_id: snowflake('since_id'),
+    until_id: cursor ?? untilId,
+    max_id: snowflake('max_id'),
+    start_time: timestamp('start_time'),
+    end_time: timestamp('end_time'),
+    max_age:
+      get('max_age') === undefined
+        ? undefined
+        : integer('max_age', 0, 0, Number.MAX_SAFE_INTEGER),
+    format: format as Format | undefined,
+  }
+
+  if (
+    params.start_time !== undefined &&
+    params.end_time !== undefined &&
+    params.start_time >= params.end_time
+  ) {
+    errors.push({ field: 'end_time', message: 'must be after start_time' })
+  }
+
+  return errors.length > 0 ? { errors } : { params }
+}
@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mockCache } from './mocks/cache-api.mock'
+import { MockDurableObjectNamespace } from './mocks/durable-object.mock'
 import { mockR2Bucket } from './mocks/r2-bucket.mock'
-import { createMockFetch, MOCK_USERS } from './mocks/twitter-api.mock'
+import { createFailingMockFetch, createMockFetch, createRateLimitedMockFetch, MOCK_USERS } from './mocks/twitter-api.mock'
 import worker from '../src/index'
+import { buildCacheKey, normalizeList } from '../src/cache'
+import { RefreshCoordinator } from '../src/coordinator'
 
 // Mock the global fetch function
 const mockFetch = vi.fn()
@@ -26,18 +30,31 @@ describe('Cache-Specific Logic Tests', () => {
 
       const userId = MOCK_USERS.MOONWELL_DEFI.id
       const request1 = new Request(`https://example.com?userid=${userId}`)
-      const request2 = new Request(`https://example.com?userid=${userId}&max_results=10`)
+      const request2 = new Request(`https://example.com?userid=${userId}&max_results=6`)
 
       await worker.fetch(request1, env)
       await worker.fetch(request2, env)
 
-      // Should use the same cache key regardless of other parameters
+      // An explicit default is the same request as an omitted one
       const cacheKeys = mockR2Bucket.keys()
-      expect(cacheKeys).toContain(`${userId}.json`)
-      expect(cacheKeys).toHaveLength(1) // Only one cache entry
+      expect(cacheKeys).toEqual([`${userId}.json`])
       expect(mockFetch).toHaveBeenCalledTimes(1) // Only one API call due to cache hit
     })
 
+    it('should not serve a cached page to a request with different max_results', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      await worker.fetch(new Request(`https://example.com?userid=${userId}&max_results=10`), env)
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      expect(mockR2Bucket.keys()).toEqual([
+        `${userId}.max_results=10.json`,
+        `${userId}.json`
+      ])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
     it('should handle edge case userids correctly', async () => {
       mockFetch.mockImplementation(async () => {
         return new Response(JSON.stringify({
@@ -67,6 +84,57 @@ describe('Cache-Specific Logic Tests', () => {
     })
   })
 
+  describe('Canonical Cache Key Matrix', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+
+    // Each group holds equivalent requests; different groups must never share an entry
+    const requestGroups = [
+      ['', '&max_results=6', '&exclude='],
+      ['&max_results=10', '&max_results=010'],
+      ['&max_results=100'],
+      ['&exclude=replies', '&exclude=REPLIES', '&exclude=replies,replies'],
+      ['&exclude=retweets'],
+      ['&exclude=replies,retweets', '&exclude=retweets,replies', '&exclude=retweets, replies'],
+      ['&max_results=10&exclude=replies', '&exclude=replies&max_results=10'],
+      ['&lookup=likes', '&lookup=likes&count=20', '&lookup=likes&since_id=1'],
+      ['&lookup=likes&count=50'],
+    ]
+
+    it('should map equivalent requests to one entry and distinct requests to distinct entries', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const keysByGroup: string[] = []
+      for (const group of requestGroups) {
+        const groupKeys = new Set<string>()
+        for (const query of group) {
+          mockR2Bucket.clear()
+          await worker.fetch(new Request(`https://example.com?userid=${userId}${query}`), env)
+          groupKeys.add(mockR2Bucket.keys()[0])
+        }
+        expect(groupKeys.size).toBe(1)
+        keysByGroup.push([...groupKeys][0])
+      }
+
+      expect(new Set(keysByGroup).size).toBe(requestGroups.length)
+    })
+
+    it('should keep the default timeline and likes keys stable', async () => {
+      expect(buildCacheKey('', userId, { max_results: '6' }, { max_results: '6' })).toBe(`${userId}.json`)
+      expect(buildCacheKey('likes/', userId, { max_results: '20' }, { max_results: '20' })).toBe(`likes/${userId}.json`)
+    })
+
+    it('should sort parameters and encode unsafe characters', async () => {
+      expect(buildCacheKey('', userId, { max_results: '10', exclude: 'replies,retweets' })).toBe(
+        `${userId}.exclude=replies,retweets&max_results=10.json`
+      )
+      expect(buildCacheKey('', userId, { token: '../a b' })).toBe(`${userId}.token=..%2Fa%20b.json`)
+    })
+
+    it('should normalize list parameters', () => {
+      expect(normalizeList('Retweets, replies,,retweets')).toBe('replies,retweets')
+    })
+  })
+
   describe('Cache Expiration Logic', () => {
     it('should respect 901 second cache timeout', async () => {
       mockFetch.mockImplementation(createMockFetch())
@@ -133,6 +201,443 @@ describe('Cache-Specific Logic Tests', () => {
     })
   })
 
+  describe('Configurable TTL', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+
+    // Returns whether a cached object of the given age is refreshed from Twitter
+    const refreshesAt = async (ageSeconds: number, query = '', headers: Record<string, string> = {}) => {
+      mockR2Bucket.clear()
+      mockFetch.mockClear()
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', new Date(Date.now() - ageSeconds * 1000))
+      mockR2Bucket.setWithUploadTime(`likes/${userId}.json`, '{"data": "cached"}', new Date(Date.now() - ageSeconds * 1000))
+      await worker.fetch(new Request(`https://example.com?userid=${userId}${query}`, { headers }), env)
+      return mockFetch.mock.calls.length > 0
+    }
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(createMockFetch())
+    })
+
+    it('should default to 901 seconds for timelines and likes', async () => {
+      expect(await refreshesAt(900)).toBe(false)
+      expect(await refreshesAt(902)).toBe(true)
+      expect(await refreshesAt(900, '&lookup=likes')).toBe(false)
+      expect(await refreshesAt(902, '&lookup=likes')).toBe(true)
+    })
+
+    it('should read per-endpoint TTLs from env vars', async () => {
+      env.CACHE_TTL_TIMELINE = '60'
+      env.CACHE_TTL_LIKES = '7200'
+
+      expect(await refreshesAt(61)).toBe(true)
+      expect(await refreshesAt(3600, '&lookup=likes')).toBe(false)
+      expect(await refreshesAt(7201, '&lookup=likes')).toBe(true)
+    })
+
+    it('should ignore malformed TTL env vars', async () => {
+      env.CACHE_TTL_TIMELINE = 'soon'
+
+      expect(await refreshesAt(900)).toBe(false)
+      expect(await refreshesAt(902)).toBe(true)
+    })
+
+    it('should apply per-user overrides for all endpoints', async () => {
+      env.CACHE_TTL_TIMELINE = '60'
+      env.CACHE_TTL_OVERRIDES = JSON.stringify({ [userId]: 1800 })
+
+      expect(await refreshesAt(1000)).toBe(false)
+      expect(await refreshesAt(1000, '&lookup=likes')).toBe(false)
+      expect(await refreshesAt(1801)).toBe(true)
+    })
+
+    it('should apply per-user overrides for a single endpoint', async () => {
+      env.CACHE_TTL_OVERRIDES = JSON.stringify({ [userId]: { likes: 30 } })
+
+      expect(await refreshesAt(31, '&lookup=likes')).toBe(true)
+      expect(await refreshesAt(31)).toBe(false)
+    })
+
+    it('should not apply overrides to other users', async () => {
+      env.CACHE_TTL_OVERRIDES = JSON.stringify({ [MOCK_USERS.MAMO_AGENT.id]: 30 })
+
+      expect(await refreshesAt(31)).toBe(false)
+    })
+
+    it('should use the user TTL for username mappings', async () => {
+      env.CACHE_TTL_USER = '60'
+      mockR2Bucket.setWithUploadTime(
+        'usernames/mamo_agent.json',
+        JSON.stringify({ id: MOCK_USERS.MAMO_AGENT.id }),
+        new Date(Date.now() - 120_000)
+      )
+
+      await worker.fetch(new Request('https://example.com?username=Mamo_agent'), env)
+
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/users/by/username/Mamo_agent'), expect.any(Object))
+    })
+
+    describe('max_age', () => {
+      const trusted = { 'X-Api-Key': 'secret-key' }
+
+      beforeEach(() => {
+        env.TRUSTED_API_KEY = 'secret-key'
+      })
+
+      it('should let trusted callers request fresher data', async () => {
+        expect(await refreshesAt(300, '&max_age=600', trusted)).toBe(false)
+        expect(await refreshesAt(300, '&max_age=120', trusted)).toBe(true)
+      })
+
+      it('should never extend the configured TTL', async () => {
+        expect(await refreshesAt(1000, '&max_age=86400', trusted)).toBe(true)
+      })
+
+      it('should not go below the configured floor', async () => {
+        env.MIN_MAX_AGE = '100'
+
+        expect(await refreshesAt(50, '&max_age=0', trusted)).toBe(false)
+        expect(await refreshesAt(101, '&max_age=0', trusted)).toBe(true)
+      })
+
+      it('should not be part of the cache key', async () => {
+        await refreshesAt(300, '&max_age=120', trusted)
+
+        expect(mockR2Bucket.keys()).toContain(`${userId}.json`)
+        expect(mockR2Bucket.keys()).toHaveLength(2)
+      })
+
+      it('should reject max_age from untrusted callers', async () => {
+        for (const headers of [{}, { 'X-Api-Key': 'wrong-key' }]) {
+          const response = await worker.fetch(
+            new Request(`https://example.com?userid=${userId}&max_age=60`, { headers }), env
+          )
+          expect(response.status).toBe(403)
+        }
+        expect(mockFetch).not.toHaveBeenCalled()
+      })
+
+      it('should reject max_age when no API key is configured', async () => {
+        env.TRUSTED_API_KEY = undefined
+
+        const response = await worker.fetch(
+          new Request(`https://example.com?userid=${userId}&max_age=60`, { headers: { 'X-Api-Key': '' } }), env
+        )
+        expect(response.status).toBe(403)
+      })
+    })
+  })
+
+  describe('Stale-While-Revalidate', () => {
+    let ctx: any
+    let background: Promise<unknown>[]
+
+    beforeEach(() => {
+      background = []
+      ctx = {
+        waitUntil: vi.fn((promise: Promise<unknown>) => background.push(promise)),
+        passThroughOnException: vi.fn()
+      }
+    })
+
+    it('should mark fresh cache hits', async () => {
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "fresh"}', new Date(Date.now() - 60_000))
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env, ctx)
+
+      await Promise.all(background)
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should serve stale data immediately and refresh in the background', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      const staleTime = new Date(Date.now() - 1000_000) // Past the soft TTL, within the hard TTL
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', staleTime)
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env, ctx)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-revalidating')
+      expect(await response.json()).toEqual({ data: 'stale' })
+      expect(ctx.waitUntil).toHaveBeenCalledTimes(1)
+
+      await Promise.all(background)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      const refreshed = await mockR2Bucket.get(`${userId}.json`)
+      expect(refreshed?.uploaded.getTime()).toBeGreaterThan(staleTime.getTime())
+      expect(JSON.parse(refreshed!.body).data[0].author_id).toBe(userId)
+    })
+
+    it('should keep the stale object when the background refresh fails', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 1000_000))
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env, ctx)
+      await Promise.all(background)
+
+      expect(response.status).toBe(200)
+      expect(JSON.parse((await mockR2Bucket.get(`${userId}.json`))!.body)).toEqual({ data: 'stale' })
+    })
+
+    it('should block on Twitter once the hard TTL is exceeded', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "ancient"}', new Date(Date.now() - 3_601_000))
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env, ctx)
+      const data = await response.json()
+
+      expect(response.headers.get('X-Cache-Status')).toBe('miss')
+      expect(data.data[0].author_id).toBe(userId)
+      expect(ctx.waitUntil).not.toHaveBeenCalled()
+    })
+
+    it('should mark stale data served because Twitter failed', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "ancient"}', new Date(Date.now() - 3_601_000))
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env, ctx)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+    })
+
+    it('should block on Twitter when no execution context is available', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 1000_000))
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('miss')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('HTTP Caching Headers', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    it('should derive Cache-Control from the remaining TTL', async () => {
+      vi.useFakeTimers({ now: new Date('2024-01-15T10:05:00.000Z') })
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', new Date('2024-01-15T10:00:00.000Z'))
+
+      const response = await worker.fetch(new Request(url), env)
+      vi.useRealTimers()
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=601, stale-while-revalidate=2699')
+    })
+
+    it('should send the full TTL for freshly fetched data', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=901, stale-while-revalidate=2699')
+      expect(response.headers.get('ETag')).toMatch(/^"[0-9a-f]{32}"$/)
+      expect(new Date(response.headers.get('Last-Modified')!).getTime()).toBeLessThanOrEqual(Date.now())
+    })
+
+    it('should require revalidation of stale data served on error', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 2000_000))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=0, must-revalidate')
+    })
+
+    it('should send Last-Modified from the upload time of the cached object', async () => {
+      const uploaded = new Date('2024-01-15T10:00:00.000Z')
+      vi.useFakeTimers({ now: new Date('2024-01-15T10:05:00.000Z') })
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', uploaded)
+
+      const response = await worker.fetch(new Request(url), env)
+      vi.useRealTimers()
+
+      expect(response.headers.get('Last-Modified')).toBe('Mon, 15 Jan 2024 10:00:00 GMT')
+    })
+
+    it('should give identical content the same ETag and different content a different one', async () => {
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', new Date(Date.now() - 60_000))
+      const first = await worker.fetch(new Request(url), env)
+      const second = await worker.fetch(new Request(url), env)
+
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "changed"}', new Date(Date.now() - 60_000))
+      const third = await worker.fetch(new Request(url), env)
+
+      expect(first.headers.get('ETag')).toBe(second.headers.get('ETag'))
+      expect(third.headers.get('ETag')).not.toBe(first.headers.get('ETag'))
+    })
+
+    it('should answer a matching If-None-Match with 304', async () => {
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', new Date(Date.now() - 60_000))
+      const first = await worker.fetch(new Request(url), env)
+      const etag = first.headers.get('ETag')!
+
+      for (const ifNoneMatch of [etag, `W/${etag}`, `"other", ${etag}`, '*']) {
+        const response = await worker.fetch(new Request(url, { headers: { 'If-None-Match': ifNoneMatch } }), env)
+
+        expect(response.status).toBe(304)
+        expect(await response.text()).toBe('')
+        expect(response.headers.get('ETag')).toBe(etag)
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
+      }
+    })
+
+    it('should answer a mismatching If-None-Match with the full body', async () => {
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', new Date(Date.now() - 60_000))
+
+      const response = await worker.fetch(new Request(url, { headers: { 'If-None-Match': '"outdated"' } }), env)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ data: 'cached' })
+    })
+
+    it('should answer If-Modified-Since with 304 unless the object changed since', async () => {
+      const uploaded = new Date(Date.now() - 60_000)
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', uploaded)
+
+      const notModified = await worker.fetch(
+        new Request(url, { headers: { 'If-Modified-Since': uploaded.toUTCString() } }), env
+      )
+      const modified = await worker.fetch(
+        new Request(url, { headers: { 'If-Modified-Since': new Date(uploaded.getTime() - 10_000).toUTCString() } }), env
+      )
+
+      expect(notModified.status).toBe(304)
+      expect(modified.status).toBe(200)
+    })
+
+    it('should let If-None-Match take precedence over If-Modified-Since', async () => {
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "cached"}', new Date(Date.now() - 60_000))
+
+      const response = await worker.fetch(new Request(url, {
+        headers: { 'If-None-Match': '"outdated"', 'If-Modified-Since': new Date().toUTCString() }
+      }), env)
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should compute the ETag from the served body', async () => {
+      // Different likes filters share one R2 object but serve different bodies
+      mockR2Bucket.setWithUploadTime(
+        `likes/${userId}.json`,
+        JSON.stringify({ data: [{ id: '2' }, { id: '1' }], meta: { result_count: 2 } }),
+        new Date(Date.now() - 60_000)
+      )
+
+      const all = await worker.fetch(new Request(`${url}&lookup=likes`), env)
+      const filtered = await worker.fetch(new Request(`${url}&lookup=likes&since_id=1`), env)
+
+      expect(filtered.headers.get('ETag')).not.toBe(all.headers.get('ETag'))
+    })
+  })
+
+  describe('Edge Cache', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    beforeEach(() => {
+      mockCache.clear()
+      ;(globalThis as any).caches = { default: mockCache }
+    })
+
+    afterEach(() => {
+      delete (globalThis as any).caches
+    })
+
+    it('should serve a fresh edge entry without reading R2', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+      await worker.fetch(new Request(url), env)
+
+      const getSpy = vi.spyOn(mockR2Bucket, 'get')
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(getSpy).not.toHaveBeenCalled()
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      getSpy.mockRestore()
+    })
+
+    it('should populate the edge cache from a fresh R2 object', async () => {
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "from r2"}', new Date(Date.now() - 60_000))
+
+      await worker.fetch(new Request(url), env)
+
+      const getSpy = vi.spyOn(mockR2Bucket, 'get')
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(await response.json()).toEqual({ data: 'from r2' })
+      expect(getSpy).not.toHaveBeenCalled()
+      getSpy.mockRestore()
+    })
+
+    it('should fall back to R2 once the edge entry is stale', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+      const uploaded = new Date(Date.now() - 1_000_000)
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', uploaded)
+      await mockCache.put(
+        new Request(`https://edge-cache.twitter-worker.internal/${userId}.json`),
+        new Response('{"data": "stale"}', { headers: { 'X-Uploaded': uploaded.toISOString() } })
+      )
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('miss')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should replace the edge entry when the cache is refreshed', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "old"}', new Date(Date.now() - 1_000_000))
+
+      await worker.fetch(new Request(url), env)
+      const response = await worker.fetch(new Request(url), env)
+
+      const body = await response.json()
+      expect(body.data).not.toBe('old')
+      expect(body).toEqual(JSON.parse((await mockR2Bucket.get(`${userId}.json`))!.body))
+    })
+
+    it('should purge the edge entry when R2 cannot store the refresh', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+      const uploaded = new Date(Date.now() - 1_000_000)
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', uploaded)
+      await mockCache.put(
+        new Request(`https://edge-cache.twitter-worker.internal/${userId}.json`),
+        new Response('{"data": "stale"}', { headers: { 'X-Uploaded': uploaded.toISOString() } })
+      )
+
+      const originalPut = mockR2Bucket.put
+      mockR2Bucket.put = vi.fn().mockRejectedValue(new Error('Storage failure'))
+      const response = await worker.fetch(new Request(url), env)
+      mockR2Bucket.put = originalPut
+
+      expect(response.status).toBe(200)
+      expect(mockCache.keys()).toHaveLength(0)
+    })
+
+    it('should keep serving from R2 when the edge cache fails', async () => {
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "from r2"}', new Date(Date.now() - 60_000))
+      vi.spyOn(mockCache, 'match').mockRejectedValueOnce(new Error('Cache unavailable'))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ data: 'from r2' })
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Cache Storage Metadata', () => {
     it('should store userid in cache metadata', async () => {
       mockFetch.mockImplementation(createMockFetch())
@@ -191,8 +696,8 @@ describe('Cache-Specific Logic Tests', () => {
         expect(response.status).toBe(200)
       }
 
-      // Should have made API calls (cache misses for concurrent requests are expected)
-      expect(mockFetch).toHaveBeenCalled()
+      // Concurrent cache misses share a single upstream call
+      expect(mockFetch).toHaveBeenCalledTimes(1)
       
       // Should have cached the result
       const cachedObject = await mockR2Bucket.get(`${userId}.json`)
@@ -250,6 +755,109 @@ describe('Cache-Specific Logic Tests', () => {
     })
   })
 
+  describe('Request Coalescing', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    const fetchAll = (count: number, env: any) =>
+      Promise.all(Array.from({ length: count }, () => worker.fetch(new Request(url), env)))
+
+    it('should share a failed refresh between concurrent requests', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+      env.TWITTER_RETRIES = '0'
+
+      const responses = await fetchAll(3, env)
+
+      for (const response of responses) {
+        expect(response.status).toBe(502)
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refresh again once the previous refresh has settled', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      await fetchAll(2, env)
+      mockR2Bucket.clear()
+      await fetchAll(2, env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should coalesce background refreshes of a stale entry', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 1_000_000))
+      const background: Promise<unknown>[] = []
+      const ctx = { waitUntil: (promise: Promise<unknown>) => background.push(promise) }
+
+      await Promise.all([
+        worker.fetch(new Request(url), env, ctx as any),
+        worker.fetch(new Request(url), env, ctx as any)
+      ])
+      await Promise.all(background)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    describe('with a RefreshCoordinator', () => {
+      let coordinators: MockDurableObjectNamespace<RefreshCoordinator>
+
+      beforeEach(() => {
+        coordinators = new MockDurableObjectNamespace(() => new RefreshCoordinator({} as any, env))
+        env.REFRESH_COORDINATOR = coordinators
+      })
+
+      it('should route refreshes through the object for the cache key', async () => {
+        mockFetch.mockImplementation(createMockFetch())
+
+        const responses = await fetchAll(3, env)
+
+        for (const response of responses) {
+          expect(response.status).toBe(200)
+          expect(response.headers.get('X-Cache-Status')).toBe('miss')
+        }
+        expect(coordinators.names()).toEqual([`${userId}.json`])
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+        expect(await mockR2Bucket.get(`${userId}.json`)).not.toBeNull()
+      })
+
+      it('should preserve upstream errors across the object boundary', async () => {
+        mockFetch.mockImplementation(createRateLimitedMockFetch())
+        mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 1_000_000))
+
+        const response = await worker.fetch(new Request(url), env)
+
+        expect(response.status).toBe(200)
+        expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      })
+
+      it('should report malformed upstream bodies as parse errors', async () => {
+        mockFetch.mockImplementation(async () => new Response('not json', { status: 200 }))
+
+        const response = await worker.fetch(new Request(url), env)
+
+        expect(response.status).toBe(502)
+        expect(await response.json()).toEqual({
+          error: 'Failed to parse response and no cache available',
+          code: 'invalid_response',
+          message: 'Twitter returned a malformed response'
+        })
+      })
+
+      it('should fall back to coalescing in the isolate when the object is unreachable', async () => {
+        mockFetch.mockImplementation(createMockFetch())
+        coordinators.unavailable = true
+
+        const responses = await fetchAll(3, env)
+
+        for (const response of responses) {
+          expect(response.status).toBe(200)
+        }
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+      })
+    })
+  })
+
   describe('Cache Hit/Miss Logging', () => {
     let consoleSpy: any
 
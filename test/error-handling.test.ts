@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { mockR2Bucket } from './mocks/r2-bucket.mock'
-import { createFailingMockFetch, createRateLimitedMockFetch, MOCK_USERS } from './mocks/twitter-api.mock'
+import { createFailingMockFetch, createMockFetch, createRateLimitedMockFetch, MOCK_USERS } from './mocks/twitter-api.mock'
 import worker from '../src/index'
 
 // Mock the global fetch function
@@ -52,8 +52,10 @@ describe('Error Handling Tests', () => {
       const response = await worker.fetch(request, env)
       const data = await response.json()
 
-      expect(response.status).toBe(500)
+      expect(response.status).toBe(502)
       expect(data.error).toBe('Failed to fetch data and no cache available')
+      expect(data.code).toBe('upstream_unreachable')
+      expect(data.upstream_status).toBeUndefined()
     })
 
     it('should handle rate limiting gracefully', async () => {
@@ -124,8 +126,11 @@ describe('Error Handling Tests', () => {
       const response = await worker.fetch(request, env)
       const data = await response.json()
 
-      expect(response.status).toBe(500)
+      // A bad token is our problem, not the caller's
+      expect(response.status).toBe(502)
       expect(data.error).toBe('Failed to fetch data and no cache available')
+      expect(data.code).toBe('upstream_unauthorized')
+      expect(data.upstream_status).toBe(401)
     })
 
     it('should handle invalid bearer token', async () => {
@@ -159,6 +164,142 @@ describe('Error Handling Tests', () => {
     })
   })
 
+  describe('Bearer Token Rotation', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    // Answers per token: a status, or 200 with the given remaining budget
+    const perToken = (answers: Record<string, number | { remaining: number }>) =>
+      async (input: string, options?: RequestInit) => {
+        const token = (options?.headers as Record<string, string>).Authorization.replace('Bearer ', '')
+        const answer = answers[token]
+        if (typeof answer === 'number') {
+          return new Response(JSON.stringify({ title: 'Error' }), {
+            status: answer,
+            headers: answer === 429
+              ? { 'x-rate-limit-remaining': '0', 'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) + 900) }
+              : {}
+          })
+        }
+        const response = await createMockFetch()(input, options)
+        return new Response(response.body, {
+          headers: {
+            'content-type': 'application/json',
+            'x-rate-limit-remaining': String(answer.remaining),
+            'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) + 900)
+          }
+        })
+      }
+
+    const usedTokens = () =>
+      mockFetch.mock.calls.map(([, options]) => options.headers.Authorization.replace('Bearer ', ''))
+
+    it('should report the slot of the single configured token', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('X-Token-Slot')).toBe('0')
+    })
+
+    it('should use TWITTER_BEARER_TOKENS instead of TWITTER_BEARER_TOKEN', async () => {
+      env.TWITTER_BEARER_TOKENS = 'token-a, token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': { remaining: 10 }, 'token-b': { remaining: 10 } }))
+
+      await worker.fetch(new Request(url), env)
+
+      expect(usedTokens()).toEqual(['token-a'])
+    })
+
+    it.each([401, 403, 429])('should fail over to the next token on %i', async (status) => {
+      env.TWITTER_BEARER_TOKENS = 'token-a,token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': status, 'token-b': { remaining: 10 } }))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Token-Slot')).toBe('1')
+      expect(usedTokens()).toEqual(['token-a', 'token-b'])
+    })
+
+    it('should prefer the token with the most budget left', async () => {
+      env.TWITTER_BEARER_TOKENS = 'token-a,token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': { remaining: 5 }, 'token-b': { remaining: 100 } }))
+
+      for (let page = 0; page < 3; page++) {
+        await worker.fetch(new Request(`${url}&max_results=${10 + page}`), env)
+      }
+
+      // token-b is untried, then reports more budget than token-a
+      expect(usedTokens()).toEqual(['token-a', 'token-b', 'token-b'])
+    })
+
+    it('should skip a rate limited token until its window resets', async () => {
+      env.TWITTER_BEARER_TOKENS = 'token-a,token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': 429, 'token-b': { remaining: 10 } }))
+
+      await worker.fetch(new Request(url), env)
+      await worker.fetch(new Request(`${url}&max_results=10`), env)
+
+      expect(usedTokens()).toEqual(['token-a', 'token-b', 'token-b'])
+    })
+
+    it.each([401, 403])('should try a token rejected with %i last on later calls', async (status) => {
+      env.TWITTER_BEARER_TOKENS = 'token-a,token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': status, 'token-b': { remaining: 10 } }))
+
+      await worker.fetch(new Request(url), env)
+      await worker.fetch(new Request(`${url}&max_results=10`), env)
+      await worker.fetch(new Request(`${url}&max_results=11`), env)
+
+      expect(usedTokens()).toEqual(['token-a', 'token-b', 'token-b', 'token-b'])
+    })
+
+    it('should keep trying a rejected token when it is the only one', async () => {
+      mockFetch.mockImplementation(perToken({ 'test-bearer-token': 401 }))
+
+      await worker.fetch(new Request(url), env)
+      const response = await worker.fetch(new Request(`${url}&max_results=10`), env)
+
+      expect(response.status).toBe(502)
+      expect(usedTokens()).toEqual(['test-bearer-token', 'test-bearer-token'])
+    })
+
+    it('should answer 503 once every token is rate limited', async () => {
+      env.TWITTER_BEARER_TOKENS = 'token-a,token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': 429, 'token-b': 429 }))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(503)
+      expect(response.headers.get('Retry-After')).not.toBeNull()
+      expect(usedTokens()).toEqual(['token-a', 'token-b'])
+    })
+
+    it('should fail once every token is rejected', async () => {
+      env.TWITTER_BEARER_TOKENS = 'token-a,token-b'
+      mockFetch.mockImplementation(perToken({ 'token-a': 401, 'token-b': 403 }))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(502)
+      expect((await response.json()).upstream_status).toBe(403)
+      expect(usedTokens()).toEqual(['token-a', 'token-b'])
+    })
+
+    it('should never expose a token in the response', async () => {
+      env.TWITTER_BEARER_TOKENS = 'secret-token-a,secret-token-b'
+      mockFetch.mockImplementation(perToken({ 'secret-token-a': 401, 'secret-token-b': { remaining: 10 } }))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      for (const [, value] of response.headers) {
+        expect(value).not.toContain('secret-token')
+      }
+      expect(await response.text()).not.toContain('secret-token')
+    })
+  })
+
   describe('R2 Bucket Errors', () => {
     it('should handle R2 bucket read failures', async () => {
       // Mock R2 bucket get method to fail
@@ -297,8 +438,671 @@ describe('Error Handling Tests', () => {
       const response = await worker.fetch(request, env)
       const data = await response.json()
 
-      expect(response.status).toBe(500)
+      expect(response.status).toBe(404)
       expect(data.error).toBe('Failed to fetch data and no cache available')
+      expect(data.code).toBe('not_found')
+      expect(data.upstream_status).toBe(404)
+    })
+  })
+
+  describe('Timeouts and Retries', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    // Never answers, but honors the abort signal like the Workers fetch
+    const hangingFetch = async (_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')))
+      })
+
+    const status = (code: number) => async () => new Response('{}', { status: code })
+
+    beforeEach(() => {
+      // No backoff delay unless a test asks for one
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should retry 5xx answers until one succeeds', async () => {
+      mockFetch
+        .mockImplementationOnce(status(503))
+        .mockImplementationOnce(status(500))
+        .mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('miss')
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should retry network failures', async () => {
+      mockFetch
+        .mockImplementationOnce(createFailingMockFetch())
+        .mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry client errors', async () => {
+      mockFetch.mockImplementation(status(404))
+
+      await worker.fetch(new Request(url), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up after TWITTER_RETRIES retries', async () => {
+      mockFetch.mockImplementation(status(500))
+
+      const response = await worker.fetch(new Request(url), { ...env, TWITTER_RETRIES: '4' })
+
+      expect(mockFetch).toHaveBeenCalledTimes(5)
+      expect(response.status).toBe(502)
+      expect((await response.json()).upstream_status).toBe(500)
+    })
+
+    it('should back off exponentially with jitter', async () => {
+      vi.mocked(Math.random).mockReturnValue(0.5)
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+      mockFetch.mockImplementation(status(502))
+
+      await worker.fetch(new Request(url), env)
+
+      const delays = consoleSpy.mock.calls
+        .map(([message]) => String(message).match(/^Retrying in (\d+)ms/)?.[1])
+        .filter(Boolean)
+      expect(delays).toEqual(['50', '100'])
+    })
+
+    it('should abort an attempt after TWITTER_TIMEOUT_MS', async () => {
+      mockFetch.mockImplementation(hangingFetch)
+
+      const response = await worker.fetch(new Request(url), {
+        ...env,
+        TWITTER_TIMEOUT_MS: '20',
+        TWITTER_RETRIES: '0'
+      })
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal)
+      expect(response.status).toBe(504)
+      const data = await response.json()
+      expect(data.code).toBe('upstream_timeout')
+      expect(data.upstream_status).toBeUndefined()
+    })
+
+    it('should time out bodies that stall after the headers', async () => {
+      mockFetch.mockImplementation(async (_url: string, init?: RequestInit) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('{"data": ['))
+              // Honors the abort signal like the Workers fetch
+              init?.signal?.addEventListener('abort', () =>
+                controller.error(new DOMException('The operation was aborted', 'AbortError'))
+              )
+            }
+          }),
+          { status: 200, headers: { 'content-type': 'application/json' } }
+        )
+      )
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 2000_000))
+
+      const response = await worker.fetch(new Request(url), {
+        ...env,
+        TWITTER_TIMEOUT_MS: '20',
+        TWITTER_RETRIES: '0'
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+    })
+
+    it('should cancel the body of a 5xx answer before retrying', async () => {
+      const cancel = vi.fn()
+      mockFetch
+        .mockImplementationOnce(async () =>
+          new Response(new ReadableStream({ cancel }), { status: 503 })
+        )
+        .mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(cancel).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry timed out attempts', async () => {
+      mockFetch
+        .mockImplementationOnce(hangingFetch)
+        .mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), { ...env, TWITTER_TIMEOUT_MS: '20' })
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should serve stale data once the deadline expires', async () => {
+      mockFetch.mockImplementation(hangingFetch)
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 2000_000))
+
+      const started = Date.now()
+      const response = await worker.fetch(new Request(url), {
+        ...env,
+        TWITTER_TIMEOUT_MS: '1000',
+        TWITTER_RETRIES: '10',
+        TWITTER_DEADLINE_MS: '50'
+      })
+
+      expect(Date.now() - started).toBeLessThan(500)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+    })
+  })
+
+  describe('Circuit Breaker', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    const failTimes = async (times: number) => {
+      for (let i = 0; i < times; i++) {
+        await worker.fetch(new Request(url), env)
+      }
+    }
+
+    const status = async () => (await (await worker.fetch(new Request('https://example.com/status'), env)).json()).circuit
+
+    beforeEach(() => {
+      env.TWITTER_RETRIES = '0'
+      env.CIRCUIT_FAILURE_THRESHOLD = '3'
+    })
+
+    it('should open after consecutive failures and stop calling Twitter', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+      await failTimes(3)
+      mockFetch.mockClear()
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.status).toBe(503)
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+      expect(await response.json()).toMatchObject({ code: 'circuit_open' })
+    })
+
+    it('should count 5xx answers as failures', async () => {
+      mockFetch.mockImplementation(async () => new Response('{}', { status: 500 }))
+      await failTimes(3)
+
+      expect((await status()).state).toBe('open')
+    })
+
+    it('should not count client errors or rate limiting', async () => {
+      mockFetch.mockImplementation(async () => new Response('{}', { status: 404 }))
+      await failTimes(3)
+      mockFetch.mockImplementation(createRateLimitedMockFetch())
+      await failTimes(3)
+
+      expect(await status()).toMatchObject({ state: 'closed', failures: 0 })
+    })
+
+    it('should reset the failure count on success', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+      await failTimes(2)
+      mockFetch.mockImplementationOnce(createMockFetch())
+      await failTimes(1)
+      mockR2Bucket.delete(`${userId}.json`)
+      await failTimes(2)
+
+      expect(await status()).toMatchObject({ state: 'closed', failures: 2 })
+    })
+
+    it('should serve stale data immediately while open', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+      await failTimes(3)
+      mockFetch.mockClear()
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 2000_000))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+    })
+
+    it('should close again once the half-open probe succeeds', async () => {
+      env.CIRCUIT_COOLDOWN_MS = '20'
+      mockFetch.mockImplementation(createFailingMockFetch())
+      await failTimes(3)
+      await new Promise(resolve => setTimeout(resolve, 30))
+      expect((await status()).state).toBe('half-open')
+
+      mockFetch.mockReset()
+      mockFetch.mockImplementation(createMockFetch())
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(await status()).toMatchObject({ state: 'closed', failures: 0 })
+    })
+
+    it('should reopen when the probe fails', async () => {
+      env.CIRCUIT_COOLDOWN_MS = '20'
+      mockFetch.mockImplementation(createFailingMockFetch())
+      await failTimes(3)
+      await new Promise(resolve => setTimeout(resolve, 30))
+
+      mockFetch.mockClear()
+      await failTimes(2)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect((await status()).state).toBe('open')
+    })
+
+    it('should let a single probe through at a time', async () => {
+      await mockR2Bucket.put('circuit/twitter.json', JSON.stringify({
+        state: 'half-open',
+        failures: 3,
+        opened_at: Date.now() - 60_000,
+        probe_at: Date.now()
+      }))
+      mockFetch.mockImplementation(createMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(503)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should report its state on the status endpoint', async () => {
+      expect(await status()).toEqual({
+        state: 'closed',
+        failures: 0,
+        failure_threshold: 3,
+        cooldown_ms: 30000
+      })
+
+      mockFetch.mockImplementation(createFailingMockFetch())
+      await failTimes(3)
+
+      const open = await status()
+      expect(open.state).toBe('open')
+      expect(open.failures).toBe(3)
+      expect(Date.parse(open.retry_at) - Date.parse(open.opened_at)).toBe(30000)
+    })
+  })
+
+  describe('Error Payloads', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    // Twitter's answer for a suspended account: a 200 without data
+    const suspended = async () => new Response(JSON.stringify({
+      errors: [{
+        value: userId,
+        detail: `User has been suspended: [${userId}].`,
+        title: 'Forbidden',
+        resource_type: 'user',
+        type: 'https://api.twitter.com/2/problems/resource-unavailable'
+      }]
+    }), { status: 200, headers: { 'content-type': 'application/json' } })
+
+    it('should not cache a 200 that only carries errors', async () => {
+      mockFetch.mockImplementation(suspended)
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(404)
+      expect(await response.json()).toMatchObject({
+        code: 'unavailable',
+        message: `User has been suspended: [${userId}].`,
+        upstream_status: 200
+      })
+      expect(mockR2Bucket.keys()).toHaveLength(0)
+    })
+
+    it('should keep serving the last good entry', async () => {
+      mockFetch.mockImplementation(suspended)
+      const uploaded = new Date(Date.now() - 2000_000)
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "last good"}', uploaded)
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      expect(await response.json()).toEqual({ data: 'last good' })
+      const cached = await mockR2Bucket.get(`${userId}.json`)
+      expect(cached?.body).toBe('{"data": "last good"}')
+      expect(cached?.uploaded).toEqual(uploaded)
+    })
+
+    it('should not let a background refresh replace the last good entry', async () => {
+      mockFetch.mockImplementation(suspended)
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "last good"}', new Date(Date.now() - 1_000_000))
+      const background: Promise<unknown>[] = []
+      const ctx: any = { waitUntil: (promise: Promise<unknown>) => background.push(promise) }
+
+      await worker.fetch(new Request(url), env, ctx)
+      await Promise.all(background)
+
+      expect((await mockR2Bucket.get(`${userId}.json`))?.body).toBe('{"data": "last good"}')
+    })
+
+    it('should reject payloads with neither data nor a result count', async () => {
+      mockFetch.mockImplementation(async () => new Response(JSON.stringify({ title: 'Unexpected' }), { status: 200 }))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(502)
+      expect((await response.json()).code).toBe('upstream_error')
+      expect(mockR2Bucket.keys()).toHaveLength(0)
+    })
+
+    it('should still cache empty results', async () => {
+      mockFetch.mockImplementation(async () => new Response(JSON.stringify({ meta: { result_count: 0 } }), { status: 200 }))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.json`])
+    })
+
+    it('should call Twitter on every request without CACHE_TTL_ERRORS', async () => {
+      mockFetch.mockImplementation(suspended)
+
+      await worker.fetch(new Request(url), env)
+      await worker.fetch(new Request(url), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    describe('with CACHE_TTL_ERRORS', () => {
+      beforeEach(() => {
+        env.CACHE_TTL_ERRORS = '60'
+      })
+
+      it('should answer from the negative cache without calling Twitter', async () => {
+        mockFetch.mockImplementation(suspended)
+
+        const first = await worker.fetch(new Request(url), env)
+        const second = await worker.fetch(new Request(url), env)
+
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+        expect(second.status).toBe(first.status)
+        expect(await second.json()).toEqual(await first.json())
+        expect(mockR2Bucket.keys()).toEqual([`errors/${userId}.json`])
+      })
+
+      it('should serve the last good entry while the error is remembered', async () => {
+        mockFetch.mockImplementation(suspended)
+        await worker.fetch(new Request(url), env)
+        mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "last good"}', new Date(Date.now() - 2000_000))
+
+        const response = await worker.fetch(new Request(url), env)
+
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+        expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      })
+
+      it('should call Twitter again once the error has expired', async () => {
+        mockFetch.mockImplementation(suspended)
+        await worker.fetch(new Request(url), env)
+        const remembered = await mockR2Bucket.get(`errors/${userId}.json`)
+        mockR2Bucket.setWithUploadTime(`errors/${userId}.json`, remembered!.body, new Date(Date.now() - 61_000))
+
+        mockFetch.mockImplementation(createMockFetch())
+        const response = await worker.fetch(new Request(url), env)
+
+        expect(response.status).toBe(200)
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+      })
+
+      it('should not remember HTTP errors', async () => {
+        mockFetch.mockImplementation(createFailingMockFetch())
+        env.TWITTER_RETRIES = '0'
+
+        await worker.fetch(new Request(url), env)
+        await worker.fetch(new Request(url), env)
+
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+      })
+    })
+  })
+
+  describe('Upstream Error Mapping', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const url = `https://example.com?userid=${userId}`
+
+    const answer = (status: number, body?: unknown) => async () =>
+      new Response(body === undefined ? '' : JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/problem+json' }
+      })
+
+    it.each([
+      [400, 400, 'invalid_request'],
+      [401, 502, 'upstream_unauthorized'],
+      [403, 502, 'upstream_forbidden'],
+      [404, 404, 'not_found'],
+      [409, 502, 'upstream_error'],
+      [500, 502, 'upstream_error'],
+      [502, 502, 'upstream_error'],
+      [503, 503, 'upstream_unavailable'],
+      [504, 504, 'upstream_timeout']
+    ])('should map an upstream %i to %i %s', async (upstream, status, code) => {
+      mockFetch.mockImplementation(answer(upstream))
+
+      const response = await worker.fetch(new Request(url), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(status)
+      expect(data).toMatchObject({ code, upstream_status: upstream })
+      expect(typeof data.message).toBe('string')
+    })
+
+    it('should map an upstream 429 to 503 rate_limited with Retry-After', async () => {
+      mockFetch.mockImplementation(createRateLimitedMockFetch())
+
+      const response = await worker.fetch(new Request(url), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data).toMatchObject({ code: 'rate_limited', upstream_status: 429 })
+    })
+
+    it.each([
+      ['invalid-request', 400, 400, 'invalid_request'],
+      ['resource-not-found', 400, 404, 'not_found'],
+      ['not-authorized-for-resource', 400, 403, 'forbidden'],
+      ['resource-unavailable', 400, 404, 'unavailable'],
+      ['client-forbidden', 403, 502, 'upstream_forbidden'],
+      ['usage-capped', 429, 503, 'rate_limited'],
+      ['something-new', 400, 400, 'invalid_request']
+    ])('should map the %s problem to %i', async (problem, upstream, status, code) => {
+      // The problem type is more specific than the status it comes with
+      mockFetch.mockImplementation(answer(upstream, {
+        errors: [{ type: `https://api.twitter.com/2/problems/${problem}`, detail: `Problem: ${problem}` }]
+      }))
+
+      const response = await worker.fetch(new Request(url), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(status)
+      expect(data.code).toBe(code)
+      expect(data.message).toBe(`Problem: ${problem}`)
+    })
+
+    it('should report the most specific message Twitter gave', async () => {
+      mockFetch.mockImplementation(answer(400, {
+        errors: [{ parameters: { max_results: ['1'] }, message: 'The `max_results` query parameter value [1] is not between 5 and 100' }],
+        title: 'Invalid Request',
+        detail: 'One or more parameters to your request was invalid.',
+        type: 'https://api.twitter.com/2/problems/invalid-request'
+      }))
+
+      const data = await (await worker.fetch(new Request(url), env)).json()
+
+      expect(data).toEqual({
+        error: 'Failed to fetch data and no cache available',
+        code: 'invalid_request',
+        message: 'The `max_results` query parameter value [1] is not between 5 and 100',
+        upstream_status: 400
+      })
+    })
+
+    it('should fall back to the problem title, then the status', async () => {
+      mockFetch.mockImplementationOnce(answer(401, { title: 'Unauthorized', type: 'about:blank', status: 401 }))
+      const titled = await (await worker.fetch(new Request(url), env)).json()
+      expect(titled.message).toBe('Unauthorized')
+
+      mockFetch.mockImplementation(async () => new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway' }))
+      const untitled = await (await worker.fetch(new Request(url), env)).json()
+      expect(untitled.message).toBe('HTTP 502: Bad Gateway')
+    })
+
+    it('should map username resolution failures the same way', async () => {
+      mockFetch.mockImplementation(answer(401, { title: 'Unauthorized' }))
+
+      const response = await worker.fetch(new Request('https://example.com?username=MoonwellDeFi'), env)
+
+      expect(response.status).toBe(502)
+      expect(await response.json()).toEqual({
+        error: 'Failed to resolve username',
+        code: 'upstream_unauthorized',
+        message: 'Unauthorized',
+        upstream_status: 401
+      })
+    })
+
+    it('should still prefer stale data over any mapped error', async () => {
+      mockFetch.mockImplementation(answer(404, { title: 'Not Found Error' }))
+      mockR2Bucket.setWithUploadTime(`${userId}.json`, '{"data": "stale"}', new Date(Date.now() - 2000_000))
+
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+    })
+  })
+
+  describe('Rate Limit Budget', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const resetIn = (seconds: number) => String(Math.floor(Date.now() / 1000) + seconds)
+
+    // Answers like createMockFetch, with the given x-rate-limit-* headers
+    const withRateLimit = (remaining: string, reset: string, status = 200) => async (url: string, options?: RequestInit) => {
+      const response = status === 200
+        ? await createMockFetch()(url, options)
+        : new Response(JSON.stringify({ title: 'Too Many Requests' }), { status })
+      const headers = new Headers(response.headers)
+      headers.set('x-rate-limit-limit', '1500')
+      headers.set('x-rate-limit-remaining', remaining)
+      headers.set('x-rate-limit-reset', reset)
+      return new Response(response.body, { status: response.status, headers })
+    }
+
+    const budgetKeys = () => mockR2Bucket.keys().filter(key => key.startsWith('ratelimits/'))
+
+    it('should persist the reported budget per token and endpoint', async () => {
+      const reset = resetIn(900)
+      mockFetch.mockImplementation(withRateLimit('42', reset))
+
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      const keys = budgetKeys()
+      expect(keys).toHaveLength(1)
+      expect(keys[0]).toMatch(/^ratelimits\/[0-9a-f]{16}\/%2Fusers%2F%3Aid%2Ftweets\.json$/)
+      expect(keys[0]).not.toContain(env.TWITTER_BEARER_TOKEN)
+      const state = await new Response((await mockR2Bucket.get(keys[0]))!.body).json()
+      expect(state).toEqual({ limit: 1500, remaining: 42, reset: Number(reset) })
+    })
+
+    it('should keep separate budgets for separate tokens', async () => {
+      mockFetch.mockImplementation(withRateLimit('42', resetIn(900)))
+
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+      mockR2Bucket.clear()
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), { ...env, TWITTER_BEARER_TOKEN: 'other-token' })
+
+      expect(budgetKeys()).toHaveLength(1)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should skip Twitter and serve stale data while the budget is exhausted', async () => {
+      mockFetch.mockImplementation(withRateLimit('0', resetIn(600)))
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+      mockFetch.mockClear()
+
+      // Every user of the endpoint shares the budget
+      const otherId = MOCK_USERS.MAMO_AGENT.id
+      mockR2Bucket.setWithUploadTime(`${otherId}.json`, '{"data": "stale"}', new Date(Date.now() - 2000_000))
+      const response = await worker.fetch(new Request(`https://example.com?userid=${otherId}`), env)
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      expect(await response.json()).toEqual({ data: 'stale' })
+    })
+
+    it('should answer 503 with Retry-After when the budget is exhausted and nothing is cached', async () => {
+      mockFetch.mockImplementation(withRateLimit('0', resetIn(600)))
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+      mockFetch.mockClear()
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${MOCK_USERS.MAMO_AGENT.id}`), env)
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.status).toBe(503)
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(590)
+      expect(Number(response.headers.get('Retry-After'))).toBeLessThanOrEqual(600)
+      expect((await response.json()).error).toBe('Rate limited by Twitter and no cache available')
+    })
+
+    it('should treat a 429 as an exhausted budget', async () => {
+      mockFetch.mockImplementation(withRateLimit('3', resetIn(300), 429))
+
+      const first = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+      const second = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      expect(first.status).toBe(503)
+      expect(second.status).toBe(503)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not block other endpoints', async () => {
+      mockFetch.mockImplementation(withRateLimit('0', resetIn(600)))
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&lookup=likes`), env)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should call Twitter again once the window has reset', async () => {
+      mockFetch.mockImplementation(withRateLimit('0', resetIn(-1)))
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      const response = await worker.fetch(new Request(`https://example.com?userid=${MOCK_USERS.MAMO_AGENT.id}`), env)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should answer 503 when username resolution is rate limited', async () => {
+      mockFetch.mockImplementation(withRateLimit('0', resetIn(60), 429))
+
+      const response = await worker.fetch(new Request('https://example.com?username=MoonwellDeFi'), env)
+
+      expect(response.status).toBe(503)
+      expect(response.headers.get('Retry-After')).not.toBeNull()
     })
   })
 
@@ -347,47 +1151,86 @@ describe('Error Handling Tests', () => {
     })
   })
 
-  describe('Edge Cases', () => {
-    it('should handle extremely long userids', async () => {
-      const longUserId = '1'.repeat(100) // Very long userid
-      
-      mockFetch.mockImplementation(async () => {
-        return new Response(JSON.stringify({
-          data: [],
-          includes: { users: [] },
-          meta: { result_count: 0, newest_id: '', oldest_id: '' }
-        }), {
-          status: 200,
-          headers: { 'content-type': 'application/json' }
-        })
-      })
+  describe('Parameter Validation', () => {
+    it('should list every invalid field in one response', async () => {
+      const request = new Request(
+        'https://example.com?userid=abc&max_results=5abc&exclude=likes&start_time=tomorrow&lookup=followers'
+      )
+      const response = await worker.fetch(request, env)
+      const data = await response.json()
 
-      const request = new Request(`https://example.com?userid=${longUserId}`)
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid request parameters')
+      expect(data.fields.map((f: { field: string }) => f.field).sort()).toEqual([
+        'exclude',
+        'lookup',
+        'max_results',
+        'start_time',
+        'userid'
+      ])
+      for (const field of data.fields) {
+        expect(typeof field.message).toBe('string')
+      }
+    })
+
+    it('should validate before reading R2 or calling Twitter', async () => {
+      const getSpy = vi.spyOn(mockR2Bucket, 'get')
+
+      const response = await worker.fetch(new Request('https://example.com?max_results=-5'), env)
+
+      expect(response.status).toBe(400)
+      expect(getSpy).not.toHaveBeenCalled()
+      expect(mockFetch).not.toHaveBeenCalled()
+      getSpy.mockRestore()
+    })
+
+    it('should reject malformed usernames before resolving them', async () => {
+      const response = await worker.fetch(new Request('https://example.com?username=../admin'), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.fields).toEqual([
+        { field: 'username', message: 'must be 1-15 letters, digits or underscores' }
+      ])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should accept a valid combination of parameters', async () => {
+      mockFetch.mockImplementation(async () => new Response(JSON.stringify({ data: [], meta: { result_count: 0 } }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }))
+
+      const request = new Request(
+        `https://example.com?userid=${MOCK_USERS.MOONWELL_DEFI.id}&max_results=50&exclude=replies&since_id=1&end_time=2024-01-01T00:00:00Z`
+      )
       const response = await worker.fetch(request, env)
 
       expect(response.status).toBe(200)
-      expect(mockR2Bucket.keys()).toContain(`${longUserId}.json`)
     })
+  })
 
-    it('should handle special characters in userid gracefully', async () => {
-      // Note: In real Twitter, userids are numeric, but we should handle edge cases
-      const specialUserId = '123-456_789'
-      
-      mockFetch.mockImplementation(async () => {
-        return new Response(JSON.stringify({
-          data: [],
-          includes: { users: [] },
-          meta: { result_count: 0, newest_id: '', oldest_id: '' }
-        }), {
-          status: 200,
-          headers: { 'content-type': 'application/json' }
-        })
-      })
+  describe('Edge Cases', () => {
+    it('should reject userids longer than a snowflake ID', async () => {
+      const longUserId = '1'.repeat(100) // Very long userid
 
-      const request = new Request(`https://example.com?userid=${encodeURIComponent(specialUserId)}`)
+      const request = new Request(`https://example.com?userid=${longUserId}`)
       const response = await worker.fetch(request, env)
 
-      expect(response.status).toBe(200)
+      expect(response.status).toBe(400)
+      expect(mockR2Bucket.keys()).toHaveLength(0)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should reject special characters in userid', async () => {
+      // Userids are concatenated into the Twitter URL, so anything but digits is refused
+      for (const specialUserId of ['123-456_789', '../1472197491844026370', '1472197491844026370/followers']) {
+        const request = new Request(`https://example.com?userid=${encodeURIComponent(specialUserId)}`)
+        const response = await worker.fetch(request, env)
+
+        expect(response.status).toBe(400)
+      }
+      expect(mockFetch).not.toHaveBeenCalled()
     })
 
     it('should handle missing environment variables', async () => {
@@ -397,7 +1240,7 @@ describe('Error Handling Tests', () => {
       
       // Worker should gracefully handle missing environment variables
       const response = await worker.fetch(request, incompleteEnv)
-      expect(response.status).toBe(500)
+      expect(response.status).toBe(502)
       
       const data = await response.json()
       expect(data.error).toBe('Failed to fetch data and no cache available')
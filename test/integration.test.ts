@@ -37,8 +37,8 @@ describe('Integration Tests', () => {
       expect(data1.includes.users[0].username).toBe('MoonwellDeFi')
       expect(mockFetch).toHaveBeenCalledTimes(1)
 
-      // Verify data was cached
-      const cachedObject = await mockR2Bucket.get(`${userId}.json`)
+      // Verify data was cached under a key reflecting the clamped max_results
+      const cachedObject = await mockR2Bucket.get(`${userId}.max_results=5.json`)
       expect(cachedObject).not.toBeNull()
       expect(cachedObject?.metadata.userid).toBe(userId)
 
@@ -132,7 +132,7 @@ describe('Integration Tests', () => {
 
       // Verify cache was created with default userid
       const defaultUserId = '1472197491844026370'
-      const cachedObject = await mockR2Bucket.get(`${defaultUserId}.json`)
+      const cachedObject = await mockR2Bucket.get(`${defaultUserId}.max_results=5.json`)
       expect(cachedObject).not.toBeNull()
       expect(cachedObject?.metadata.userid).toBe(defaultUserId)
     })
@@ -0,0 +1,27 @@
+// Mock implementation of the Workers Cache API (caches.default) for testing
+export class MockCache {
+  private storage = new Map<string, Response>()
+
+  async match(request: Request): Promise<Response | undefined> {
+    return this.storage.get(request.url)?.clone()
+  }
+
+  async put(request: Request, response: Response): Promise<void> {
+    this.storage.set(request.url, response.clone())
+  }
+
+  async delete(request: Request): Promise<boolean> {
+    return this.storage.delete(request.url)
+  }
+
+  clear(): void {
+    this.storage.clear()
+  }
+
+  keys(): string[] {
+    return Array.from(this.storage.keys())
+  }
+}
+
+// Global mock cache instance for tests
+export const mockCache = new MockCache()
@@ -0,0 +1,35 @@
+// Mock implementation of a Durable Object namespace for testing. Each name maps
+// to one object instance, created on first use, as in the Workers runtime.
+export class MockDurableObjectNamespace<
+  T extends { fetch(request: Request): Promise<Response> },
+> {
+  private instances = new Map<string, T>()
+  public unavailable = false
+
+  constructor(private create: () => T) {}
+
+  idFromName(name: string): string {
+    return name
+  }
+
+  get(id: string) {
+    return {
+      fetch: async (
+        input: RequestInfo,
+        init?: RequestInit,
+      ): Promise<Response> => {
+        if (this.unavailable) {
+          throw new Error('Durable Object unavailable')
+        }
+        if (!this.instances.has(id)) {
+          this.instances.set(id, this.create())
+        }
+        return this.instances.get(id)!.fetch(new Request(input, init))
+      },
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.instances.keys())
+  }
+}
@@ -6,8 +6,8 @@ export class MockR2Bucket {
     return this.storage.get(key) || null
   }
 
-  async put(key: string, value: string, options?: { metadata?: Record<string, string> }): Promise<void> {
-    const object = new MockR2Object(value, options?.metadata)
+  async put(key: string, value: string, options?: { customMetadata?: Record<string, string> }): Promise<void> {
+    const object = new MockR2Object(value, options?.customMetadata)
     this.storage.set(key, object)
   }
 
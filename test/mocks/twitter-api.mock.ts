@@ -143,6 +143,27 @@ export function createMockTwitterResponse(userId: string, maxResults: number = 6
   }
 }
 
+export function createMockProfileResponse(userId: string) {
+  const user = Object.values(MOCK_USERS).find(u => u.id === userId)
+  if (!user) {
+    throw new Error(`Mock user not found for ID: ${userId}`)
+  }
+  const pinned = MOCK_TWEETS[userId][0]
+
+  return {
+    data: {
+      ...user,
+      name: user.username,
+      description: `The official ${user.username} account`,
+      verified: false,
+      created_at: '2021-12-18T12:00:00.000Z',
+      pinned_tweet_id: pinned.id,
+      public_metrics: { followers_count: 1200, following_count: 80, tweet_count: 950, listed_count: 12 }
+    },
+    includes: { tweets: [pinned] }
+  }
+}
+
 // Mock fetch function that simulates Twitter API
 export function createMockFetch() {
   return async (url: string, options?: RequestInit): Promise<Response> => {
@@ -164,8 +185,26 @@ export function createMockFetch() {
       })
     }
 
+    // Username lookups: /2/users/by/username/{username}
+    if (pathParts[3] === 'by') {
+      const user = Object.values(MOCK_USERS).find(
+        u => u.username.toLowerCase() === pathParts[5].toLowerCase()
+      )
+      // Twitter reports unknown handles with a 200 and an errors array
+      const body = user
+        ? { data: { id: user.id, name: user.username, username: user.username } }
+        : { errors: [{ title: 'Not Found Error', detail: `Could not find user with username: [${pathParts[5]}].` }] }
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    }
+
     try {
-      const mockResponse = createMockTwitterResponse(userId, maxResults)
+      // Profile lookups: /2/users/{userid}
+      const mockResponse = pathParts.length === 4
+        ? createMockProfileResponse(userId)
+        : createMockTwitterResponse(userId, maxResults)
       return new Response(JSON.stringify(mockResponse), {
         status: 200,
         headers: { 'content-type': 'application/json' }
@@ -197,4 +236,57 @@ export function createRateLimitedMockFetch() {
       headers: { 'content-type': 'application/json' }
     })
   }
-}
\ No newline at end of file
+}
+// A timeline page exercising what the alternative formats render: links,
+// escaped text, a missing author and a next page
+export const MOCK_RICH_TIMELINE = {
+  data: [
+    {
+      id: '1692563982459252996',
+      text: 'Governance &amp; staking <3 are live: https://t.co/abc123',
+      created_at: '2024-01-15T10:00:00.000Z',
+      author_id: MOCK_USERS.MOONWELL_DEFI.id,
+      public_metrics: { retweet_count: 3, reply_count: 1, like_count: 10, quote_count: 0 },
+      entities: {
+        urls: [{
+          start: 38,
+          end: 61,
+          url: 'https://t.co/abc123',
+          expanded_url: 'https://moonwell.fi/governance',
+          display_url: 'moonwell.fi/governance'
+        }]
+      }
+    },
+    {
+      id: '1692563982459252995',
+      text: 'A reply from someone not in includes',
+      created_at: '2024-01-14T09:00:00.000Z',
+      author_id: '42',
+      public_metrics: { retweet_count: 0, reply_count: 0, like_count: 1, quote_count: 0 }
+    }
+  ],
+  includes: {
+    users: [{
+      id: MOCK_USERS.MOONWELL_DEFI.id,
+      name: 'Moonwell',
+      username: MOCK_USERS.MOONWELL_DEFI.username,
+      profile_image_url: MOCK_USERS.MOONWELL_DEFI.profile_image_url
+    }]
+  },
+  meta: {
+    result_count: 2,
+    newest_id: '1692563982459252996',
+    oldest_id: '1692563982459252995',
+    next_token: '7140dibdnow9c7btw3w29grvxfcgvpb9n9coehpk7xz5i'
+  }
+}
+
+// Mock fetch answering every call with the given payload
+export function createPayloadMockFetch(payload: unknown) {
+  return async (): Promise<Response> => {
+    return new Response(JSON.stringify(payload), {
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    })
+  }
+}
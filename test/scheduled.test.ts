@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mockR2Bucket } from './mocks/r2-bucket.mock'
+import {
+  createMockFetch,
+  createRateLimitedMockFetch,
+  MOCK_USERS,
+} from './mocks/twitter-api.mock'
+import worker from '../src/index'
+import { prewarm } from '../src/prewarm'
+
+// Mock the global fetch function
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+describe('Scheduled Prewarming Tests', () => {
+  let env: any
+
+  beforeEach(() => {
+    mockR2Bucket.clear()
+    mockFetch.mockReset()
+
+    env = {
+      MY_BUCKET: mockR2Bucket,
+      TWITTER_BEARER_TOKEN: 'test-bearer-token',
+      PREWARM_ACCOUNTS: `${MOCK_USERS.MOONWELL_DEFI.id}, @Mamo_agent`,
+      PREWARM_DELAY_MS: '0',
+    }
+  })
+
+  it('should refresh the timeline entry of every configured account', async () => {
+    mockFetch.mockImplementation(createMockFetch())
+
+    const results = await prewarm(env)
+
+    expect(results).toEqual([
+      {
+        account: MOCK_USERS.MOONWELL_DEFI.id,
+        userid: MOCK_USERS.MOONWELL_DEFI.id,
+        ok: true,
+      },
+      { account: 'Mamo_agent', userid: MOCK_USERS.MAMO_AGENT.id, ok: true },
+    ])
+    expect(mockR2Bucket.keys()).toContain(`${MOCK_USERS.MOONWELL_DEFI.id}.json`)
+    expect(mockR2Bucket.keys()).toContain(`${MOCK_USERS.MAMO_AGENT.id}.json`)
+  })
+
+  it('should refresh entries even when they are still fresh', async () => {
+    mockFetch.mockImplementation(createMockFetch())
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const uploadTime = new Date(Date.now() - 60_000)
+    mockR2Bucket.setWithUploadTime(
+      `${userId}.json`,
+      '{"data": "old"}',
+      uploadTime,
+    )
+
+    await prewarm({ ...env, PREWARM_ACCOUNTS: userId })
+
+    const refreshed = await mockR2Bucket.get(`${userId}.json`)
+    expect(refreshed?.uploaded.getTime()).toBeGreaterThan(uploadTime.getTime())
+  })
+
+  it('should serve the prewarmed entry without calling Twitter', async () => {
+    mockFetch.mockImplementation(createMockFetch())
+
+    await prewarm(env)
+    mockFetch.mockClear()
+
+    const response = await worker.fetch(
+      new Request(`https://example.com?userid=${MOCK_USERS.MAMO_AGENT.id}`),
+      env,
+    )
+
+    expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should record per-account failures and continue', async () => {
+    mockFetch.mockImplementation(createMockFetch())
+
+    const results = await prewarm({
+      ...env,
+      PREWARM_ACCOUNTS: `nobody_here,${MOCK_USERS.MAMO_AGENT.id}`,
+    })
+
+    expect(results[0]).toMatchObject({ account: 'nobody_here', ok: false })
+    expect(results[1]).toMatchObject({
+      account: MOCK_USERS.MAMO_AGENT.id,
+      ok: true,
+    })
+  })
+
+  it('should stop the run when Twitter rate limits', async () => {
+    mockFetch.mockImplementation(createRateLimitedMockFetch())
+
+    const results = await prewarm({
+      ...env,
+      PREWARM_ACCOUNTS: `${MOCK_USERS.MOONWELL_DEFI.id},${MOCK_USERS.MAMO_AGENT.id}`,
+    })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(results.map((result) => result.ok)).toEqual([false, false])
+    expect(results[1].error).toBe('Skipped')
+  })
+
+  it('should wait between accounts', async () => {
+    vi.useFakeTimers()
+    mockFetch.mockImplementation(
+      async () => new Response(JSON.stringify({ data: [] }), { status: 200 }),
+    )
+
+    const run = prewarm({
+      ...env,
+      PREWARM_ACCOUNTS: `${MOCK_USERS.MOONWELL_DEFI.id},${MOCK_USERS.MAMO_AGENT.id}`,
+      PREWARM_DELAY_MS: '5000',
+    })
+    // Hashing the token for its rate limit budget does not run on fake timers
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+    await vi.advanceTimersByTimeAsync(4_000)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1_000)
+    await run
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    vi.useRealTimers()
+  })
+
+  it('should prewarm from the scheduled handler through waitUntil', async () => {
+    mockFetch.mockImplementation(createMockFetch())
+    const background: Promise<unknown>[] = []
+    const ctx: any = {
+      waitUntil: (promise: Promise<unknown>) => background.push(promise),
+    }
+
+    await worker.scheduled(
+      { cron: '*/10 * * * *', scheduledTime: Date.now() } as any,
+      env,
+      ctx,
+    )
+    await Promise.all(background)
+
+    expect(background).toHaveLength(1)
+    expect(mockR2Bucket.keys()).toContain(`${MOCK_USERS.MOONWELL_DEFI.id}.json`)
+  })
+})
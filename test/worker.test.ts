@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { mockR2Bucket, MockR2Bucket } from './mocks/r2-bucket.mock'
-import { createMockFetch, createFailingMockFetch, MOCK_USERS } from './mocks/twitter-api.mock'
+import { createMockFetch, createMockProfileResponse, createMockTwitterResponse, createFailingMockFetch, createPayloadMockFetch, MOCK_RICH_TIMELINE, MOCK_USERS } from './mocks/twitter-api.mock'
 
 // Import the worker
 import worker from '../src/index'
@@ -81,6 +81,257 @@ describe('Cloudflare Worker - Cache Isolation Tests', () => {
     })
   })
 
+  describe('Username Lookup', () => {
+    it('should resolve username to userid and use the userid cache key', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const request = new Request('https://example.com?username=Mamo_agent')
+      const response = await worker.fetch(request, env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data[0].author_id).toBe(MOCK_USERS.MAMO_AGENT.id)
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/users/by/username/Mamo_agent'),
+        expect.any(Object)
+      )
+      expect(mockR2Bucket.keys()).toContain(`${MOCK_USERS.MAMO_AGENT.id}.json`)
+      expect(mockR2Bucket.keys()).toContain('usernames/mamo_agent.json')
+    })
+
+    it('should reuse the cached username mapping', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      await worker.fetch(new Request('https://example.com?username=MoonwellDeFi'), env)
+      mockFetch.mockClear()
+
+      // Different casing hits the same mapping and the fresh timeline cache
+      const response = await worker.fetch(new Request('https://example.com?username=moonwelldefi'), env)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for unknown usernames', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const request = new Request('https://example.com?username=nobody_here')
+      const response = await worker.fetch(request, env)
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.error).toBe('User not found: nobody_here')
+      expect(mockR2Bucket.keys()).not.toContain('1472197491844026370.json')
+    })
+
+    it('should fall back to a stale username mapping on API errors', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+
+      mockR2Bucket.setWithUploadTime(
+        'usernames/mamo_agent.json',
+        JSON.stringify({ id: MOCK_USERS.MAMO_AGENT.id, username: 'Mamo_agent' }),
+        new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+      )
+      mockR2Bucket.setWithUploadTime(
+        `${MOCK_USERS.MAMO_AGENT.id}.json`,
+        JSON.stringify({ data: 'cached mamo data' }),
+        new Date(Date.now() - 60_000)
+      )
+
+      const request = new Request('https://example.com?username=Mamo_agent')
+      const response = await worker.fetch(request, env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ data: 'cached mamo data' })
+    })
+  })
+
+  describe('Liked Tweets Lookup', () => {
+    it('should fetch liked tweets into their own cache namespace', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      const request = new Request(`https://example.com?userid=${userId}&lookup=likes`)
+      const response = await worker.fetch(request, env)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/users/${userId}/liked_tweets?max_results=20`),
+        expect.any(Object)
+      )
+      expect(mockR2Bucket.keys()).toEqual([`likes/${userId}.json`])
+      expect((await mockR2Bucket.get(`likes/${userId}.json`))?.metadata.lookup).toBe('likes')
+    })
+
+    it('should not collide with the timeline cache', async () => {
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(
+        `${userId}.json`,
+        JSON.stringify({ data: 'cached timeline' }),
+        new Date(Date.now() - 60_000)
+      )
+      mockFetch.mockImplementation(createMockFetch())
+
+      const request = new Request(`https://example.com?userid=${userId}&lookup=likes`)
+      const data = await (await worker.fetch(request, env)).json()
+
+      expect(data).not.toEqual({ data: 'cached timeline' })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should clamp count to the range Twitter accepts', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      await worker.fetch(new Request(`https://example.com?userid=${userId}&lookup=likes&count=200`), env)
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('max_results=100'),
+        expect.any(Object)
+      )
+    })
+
+    it('should apply since_id and max_id to the cached page', async () => {
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      mockR2Bucket.setWithUploadTime(
+        `likes/${userId}.json`,
+        JSON.stringify({
+          data: [{ id: '300' }, { id: '200' }, { id: '100' }],
+          meta: { result_count: 3 }
+        }),
+        new Date(Date.now() - 60_000)
+      )
+
+      const request = new Request(`https://example.com?userid=${userId}&lookup=likes&since_id=100&max_id=200`)
+      const data = await (await worker.fetch(request, env)).json()
+
+      expect(data.data).toEqual([{ id: '200' }])
+      expect(data.meta.result_count).toBe(1)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should return stale liked tweets on API error', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      const staleData = { data: 'stale likes' }
+      mockR2Bucket.setWithUploadTime(
+        `likes/${userId}.json`,
+        JSON.stringify(staleData),
+        new Date(Date.now() - 1000_000)
+      )
+
+      const request = new Request(`https://example.com?userid=${userId}&lookup=likes`)
+      const response = await worker.fetch(request, env)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual(staleData)
+    })
+
+    it('should reject non-numeric since_id', async () => {
+      const request = new Request('https://example.com?lookup=likes&since_id=abc')
+      const response = await worker.fetch(request, env)
+
+      expect(response.status).toBe(400)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should reject unsupported lookup modes', async () => {
+      const request = new Request('https://example.com?lookup=followers')
+      const response = await worker.fetch(request, env)
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('Pagination', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+    const pagedResponse = (ids: string[], nextToken?: string) => async () =>
+      new Response(JSON.stringify({
+        data: ids.map(id => ({ id, text: `tweet ${id}`, author_id: userId })),
+        meta: {
+          result_count: ids.length,
+          newest_id: ids[0],
+          oldest_id: ids[ids.length - 1],
+          ...(nextToken ? { next_token: nextToken } : {})
+        }
+      }), { status: 200, headers: { 'content-type': 'application/json' } })
+
+    it('should pass pagination parameters through to Twitter', async () => {
+      mockFetch.mockImplementation(pagedResponse(['5', '4']))
+
+      const request = new Request(
+        `https://example.com?userid=${userId}&pagination_token=7140dibdnow9c7btw3w29&since_id=1&start_time=2024-01-01T00:00:00Z&end_time=2024-02-01T00:00:00.000Z`
+      )
+      const response = await worker.fetch(request, env)
+
+      expect(response.status).toBe(200)
+      const upstreamUrl = new URL(mockFetch.mock.calls[0][0])
+      expect(upstreamUrl.searchParams.get('pagination_token')).toBe('7140dibdnow9c7btw3w29')
+      expect(upstreamUrl.searchParams.get('since_id')).toBe('1')
+      expect(upstreamUrl.searchParams.get('start_time')).toBe('2024-01-01T00:00:00Z')
+      expect(upstreamUrl.searchParams.get('end_time')).toBe('2024-02-01T00:00:00Z')
+    })
+
+    it('should return next_cursor and serve the next page through cursor', async () => {
+      mockFetch.mockImplementationOnce(pagedResponse(['5', '4'], 'token-a'))
+      mockFetch.mockImplementationOnce(pagedResponse(['3', '2']))
+
+      const first = await (await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)).json()
+      expect(first.next_cursor).toBe('4')
+
+      const second = await (await worker.fetch(
+        new Request(`https://example.com?userid=${userId}&cursor=${first.next_cursor}`), env
+      )).json()
+      expect(second.data.map((t: { id: string }) => t.id)).toEqual(['3', '2'])
+      expect(second.next_cursor).toBeUndefined()
+      expect(mockFetch.mock.calls[1][0]).toContain('until_id=4')
+
+      // Each page has its own cache entry and the stored payload stays untouched
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.json`, `${userId}.until_id=4.json`])
+      const stored = JSON.parse((await mockR2Bucket.get(`${userId}.json`))!.body)
+      expect(stored.next_cursor).toBeUndefined()
+    })
+
+    it('should serve a cached page with its next_cursor', async () => {
+      mockFetch.mockImplementation(pagedResponse(['5', '4'], 'token-a'))
+
+      await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+      const cached = await (await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)).json()
+
+      expect(cached.next_cursor).toBe('4')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should treat equivalent timestamps as the same page', async () => {
+      mockFetch.mockImplementation(pagedResponse(['5']))
+
+      await worker.fetch(new Request(`https://example.com?userid=${userId}&start_time=2024-01-01T02:00:00%2B02:00`), env)
+      await worker.fetch(new Request(`https://example.com?userid=${userId}&start_time=2024-01-01T00:00:00.000Z`), env)
+
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.start_time=2024-01-01T00%3A00%3A00Z.json`])
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it.each([
+      ['since_id=abc', 'since_id'],
+      ['until_id=../1', 'until_id'],
+      ['cursor=abc', 'cursor'],
+      ['cursor=1&until_id=2', 'cursor'],
+      ['pagination_token=a/b', 'pagination_token'],
+      ['start_time=yesterday', 'start_time'],
+      ['end_time=2024-13-01T00:00:00Z', 'end_time'],
+      ['start_time=2024-02-01T00:00:00Z&end_time=2024-01-01T00:00:00Z', 'end_time'],
+    ])('should reject %s', async (query, field) => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&${query}`), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields.map((f: { field: string }) => f.field)).toEqual([field])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Cache Isolation', () => {
     it('should not have cache collisions between different users', async () => {
       mockFetch.mockImplementation(createMockFetch())
@@ -229,7 +480,7 @@ describe('Cloudflare Worker - Cache Isolation Tests', () => {
       mockFetch.mockImplementation(createMockFetch())
 
       const userId = MOCK_USERS.MOONWELL_DEFI.id
-      const maxResults = 3
+      const maxResults = 10
       const request = new Request(`https://example.com?userid=${userId}&max_results=${maxResults}`)
 
       await worker.fetch(request, env)
@@ -254,19 +505,27 @@ describe('Cloudflare Worker - Cache Isolation Tests', () => {
       )
     })
 
-    it('should handle invalid max_results gracefully', async () => {
+    it('should reject invalid max_results', async () => {
       mockFetch.mockImplementation(createMockFetch())
 
       const userId = MOCK_USERS.MOONWELL_DEFI.id
       const request = new Request(`https://example.com?userid=${userId}&max_results=invalid`)
 
-      await worker.fetch(request, env)
+      const response = await worker.fetch(request, env)
 
-      // Should default to 6 when parseInt fails
-      expect(mockFetch).toHaveBeenCalledWith(
-        expect.stringContaining('max_results=6'),
-        expect.any(Object)
-      )
+      expect(response.status).toBe(400)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should clamp max_results to the range Twitter accepts', async () => {
+      mockFetch.mockImplementation(createMockFetch())
+
+      const userId = MOCK_USERS.MOONWELL_DEFI.id
+      await worker.fetch(new Request(`https://example.com?userid=${userId}&max_results=1000`), env)
+      await worker.fetch(new Request(`https://example.com?userid=${userId}&max_results=1`), env)
+
+      expect(mockFetch.mock.calls[0][0]).toContain('max_results=100&')
+      expect(mockFetch.mock.calls[1][0]).toContain('max_results=5&')
     })
   })
 
@@ -302,7 +561,7 @@ describe('Cloudflare Worker - Cache Isolation Tests', () => {
       const response = await worker.fetch(request, env)
       const data = await response.json()
 
-      expect(response.status).toBe(500)
+      expect(response.status).toBe(502)
       expect(data.error).toBe('Failed to fetch data and no cache available')
     })
 
@@ -315,6 +574,860 @@ describe('Cloudflare Worker - Cache Isolation Tests', () => {
     })
   })
 
+  describe('Simple Format', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(createPayloadMockFetch(MOCK_RICH_TIMELINE))
+    })
+
+    it('should flatten tweets with their author, links and metrics', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=simple`), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.tweets[0]).toEqual({
+        id: '1692563982459252996',
+        text: 'Governance & staking <3 are live: https://moonwell.fi/governance',
+        created_at: '2024-01-15T10:00:00.000Z',
+        permalink: `https://twitter.com/MoonwellDeFi/status/1692563982459252996`,
+        author: {
+          id: userId,
+          username: 'MoonwellDeFi',
+          name: 'Moonwell',
+          avatar: MOCK_USERS.MOONWELL_DEFI.profile_image_url
+        },
+        urls: ['https://moonwell.fi/governance'],
+        metrics: { retweets: 3, replies: 1, likes: 10, quotes: 0 }
+      })
+    })
+
+    it('should link tweets whose author is not included by ID', async () => {
+      const data = await (await worker.fetch(new Request(`https://example.com?userid=${userId}&format=simple`), env)).json()
+
+      expect(data.tweets[1].author).toBeNull()
+      expect(data.tweets[1].permalink).toBe('https://twitter.com/i/web/status/1692563982459252995')
+    })
+
+    it('should keep next_cursor for pagination', async () => {
+      const data = await (await worker.fetch(new Request(`https://example.com?userid=${userId}&format=simple`), env)).json()
+
+      expect(data.next_cursor).toBe('1692563982459252995')
+    })
+
+    it('should be rendered from the same cached raw payload', async () => {
+      const simple = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=simple`), env)
+      const raw = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.json`])
+      expect((await raw.json()).data).toEqual(MOCK_RICH_TIMELINE.data)
+      expect(simple.headers.get('ETag')).not.toBe(raw.headers.get('ETag'))
+    })
+
+    it('should apply to liked tweets', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&lookup=likes&format=simple`), env)
+      const data = await response.json()
+
+      expect(data.tweets.map((tweet: { id: string }) => tweet.id)).toEqual([
+        '1692563982459252996',
+        '1692563982459252995'
+      ])
+    })
+
+    it('should reject unknown formats', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=xml`), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'format', message: 'must be one of: simple,rss,atom,jsonfeed' }])
+    })
+  })
+
+  describe('Feed Formats', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(createPayloadMockFetch(MOCK_RICH_TIMELINE))
+    })
+
+    it('should render the timeline as RSS 2.0', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=rss`), env)
+      const body = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('content-type')).toBe('application/rss+xml; charset=utf-8')
+      expect(body).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+      expect(body).toContain('<title>Tweets by @MoonwellDeFi</title>')
+      expect(body).toContain('<link>https://twitter.com/MoonwellDeFi</link>')
+      expect(body.match(/<item>/g)).toHaveLength(2)
+      expect(body).toContain('<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">')
+      expect(body).toContain('<dc:creator>@MoonwellDeFi</dc:creator>')
+      expect(body).not.toContain('<author>')
+    })
+
+    it('should use created_at as pubDate and permalinks as guid', async () => {
+      const body = await (await worker.fetch(new Request(`https://example.com?userid=${userId}&format=rss`), env)).text()
+
+      expect(body).toContain('<pubDate>Mon, 15 Jan 2024 10:00:00 GMT</pubDate>')
+      expect(body).toContain(
+        '<guid isPermaLink="true">https://twitter.com/MoonwellDeFi/status/1692563982459252996</guid>'
+      )
+      expect(body).toContain('<link>https://twitter.com/i/web/status/1692563982459252995</link>')
+    })
+
+    it('should escape tweet text and link expanded URLs', async () => {
+      const body = await (await worker.fetch(new Request(`https://example.com?userid=${userId}&format=rss`), env)).text()
+
+      expect(body).toContain('<title>Governance &amp; staking &lt;3 are live: https://moonwell.fi/governance</title>')
+      expect(body).toContain(
+        '<description>Governance &amp;amp; staking &amp;lt;3 are live: ' +
+          '&lt;a href=&quot;https://moonwell.fi/governance&quot;&gt;https://moonwell.fi/governance&lt;/a&gt;</description>'
+      )
+      expect(body).not.toContain('t.co')
+    })
+
+    it('should strip characters XML does not allow', async () => {
+      mockFetch.mockImplementation(
+        createPayloadMockFetch({ ...MOCK_RICH_TIMELINE, data: [{ ...MOCK_RICH_TIMELINE.data[1], text: 'bell\u0007\uFFFE here\ttab' }] })
+      )
+
+      const body = await (await worker.fetch(new Request(`https://example.com?userid=${userId}&format=rss`), env)).text()
+
+      expect(body).toContain('<title>bell here tab</title>')
+    })
+
+    it('should render the timeline as Atom', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=atom`), env)
+      const body = await response.text()
+
+      expect(response.headers.get('content-type')).toBe('application/atom+xml; charset=utf-8')
+      expect(body).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+      expect(body).toContain('<updated>2024-01-15T10:00:00.000Z</updated>')
+      expect(body).toContain('<id>https://twitter.com/MoonwellDeFi/status/1692563982459252996</id>')
+      expect(body).toContain('<published>2024-01-14T09:00:00.000Z</published>')
+      expect(body).toContain('<content type="html">Governance &amp;amp; staking')
+      expect(body.match(/<entry>/g)).toHaveLength(2)
+    })
+
+    it('should title liked tweets feeds after the liking account', async () => {
+      const body = await (
+        await worker.fetch(new Request(`https://example.com?userid=${userId}&lookup=likes&format=atom`), env)
+      ).text()
+
+      expect(body).toContain('<title>Tweets liked by @MoonwellDeFi</title>')
+    })
+
+    it('should render the timeline as JSON Feed 1.1', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=jsonfeed`), env)
+      const feed = await response.json()
+
+      expect(response.headers.get('content-type')).toBe('application/feed+json; charset=utf-8')
+      expect(feed).toMatchObject({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: 'Tweets by @MoonwellDeFi',
+        home_page_url: 'https://twitter.com/MoonwellDeFi',
+        authors: [{ name: 'Moonwell', url: 'https://twitter.com/MoonwellDeFi', avatar: MOCK_USERS.MOONWELL_DEFI.profile_image_url }]
+      })
+      expect(feed.items[0]).toEqual({
+        id: '1692563982459252996',
+        url: 'https://twitter.com/MoonwellDeFi/status/1692563982459252996',
+        title: 'Governance & staking <3 are live: https://moonwell.fi/governance',
+        content_text: 'Governance & staking <3 are live: https://moonwell.fi/governance',
+        content_html:
+          'Governance &amp; staking &lt;3 are live: <a href="https://moonwell.fi/governance">https://moonwell.fi/governance</a>',
+        date_published: '2024-01-15T10:00:00.000Z',
+        authors: [{ name: 'Moonwell', url: 'https://twitter.com/MoonwellDeFi', avatar: MOCK_USERS.MOONWELL_DEFI.profile_image_url }],
+        _twitter: { public_metrics: { retweet_count: 3, reply_count: 1, like_count: 10, quote_count: 0 } }
+      })
+    })
+
+    it('should leave authors out of JSON Feed items whose author is not included', async () => {
+      const feed = await (await worker.fetch(new Request(`https://example.com?userid=${userId}&format=jsonfeed`), env)).json()
+
+      expect(feed.items[1].authors).toBeUndefined()
+      expect(feed.items[1]._twitter.public_metrics.like_count).toBe(1)
+    })
+
+    it('should share the cached raw payload with the JSON route', async () => {
+      const rss = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=rss`), env)
+      const atom = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=atom`), env)
+      const raw = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.json`])
+      expect(rss.headers.get('X-Cache-Status')).toBe('miss')
+      expect(atom.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(raw.headers.get('content-type')).toBe('application/json')
+    })
+
+    it('should answer conditional requests with a 304', async () => {
+      const first = await worker.fetch(new Request(`https://example.com?userid=${userId}&format=rss`), env)
+      const response = await worker.fetch(
+        new Request(`https://example.com?userid=${userId}&format=rss`, {
+          headers: { 'If-None-Match': first.headers.get('ETag') as string }
+        }),
+        env
+      )
+
+      expect(response.status).toBe(304)
+    })
+  })
+
+  describe('Routes', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(createMockFetch())
+    })
+
+    it('should serve timelines from the same cache entry as the legacy endpoint', async () => {
+      const routed = await worker.fetch(new Request(`https://example.com/v1/users/${userId}/tweets`), env)
+      const legacy = await worker.fetch(new Request(`https://example.com?userid=${userId}`), env)
+
+      expect(routed.status).toBe(200)
+      expect(routed.headers.get('X-Cache-Status')).toBe('miss')
+      expect(legacy.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.json`])
+      expect(mockFetch.mock.calls[0][0]).toContain(`/2/users/${userId}/tweets?`)
+    })
+
+    it('should apply query parameters on routes', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/users/${userId}/tweets?max_results=10&exclude=replies`), env)
+
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.exclude=replies&max_results=10.json`])
+    })
+
+    it('should serve liked tweets', async () => {
+      const response = await worker.fetch(new Request(`https://example.com/v1/users/${userId}/likes`), env)
+
+      expect(response.status).toBe(200)
+      expect(mockR2Bucket.keys()).toEqual([`likes/${userId}.json`])
+      expect(mockFetch.mock.calls[0][0]).toContain(`/2/users/${userId}/liked_tweets?`)
+    })
+
+    it('should validate path parameters', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/users/abc/tweets'), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([
+        { field: 'userid', message: 'must be a numeric ID of up to 19 digits' }
+      ])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should let path parameters take precedence over the query string', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/users/${userId}/tweets?userid=123`), env)
+
+      expect(mockR2Bucket.keys()).toEqual([`${userId}.json`])
+    })
+
+    it('should resolve usernames to profiles', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/users/by/MoonwellDeFi'), env)
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data).toMatchObject({ id: userId, username: 'MoonwellDeFi' })
+    })
+
+    it('should answer unknown usernames with a 404', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/users/by/nobody_here'), env)
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error).toBe('User not found: nobody_here')
+    })
+
+    it('should serve single tweets from their own cache entry', async () => {
+      const tweetId = '1692563982459252996'
+      mockFetch.mockImplementation(createPayloadMockFetch({ data: MOCK_RICH_TIMELINE.data[0] }))
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets/${tweetId}`), env)
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.id).toBe(tweetId)
+      expect(mockR2Bucket.keys()).toEqual([`tweets/${tweetId}.json`])
+      expect(mockFetch.mock.calls[0][0]).toContain(`/2/tweets/${tweetId}?`)
+    })
+
+    it('should report health with the circuit state', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/health'), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.status).toBe('ok')
+      expect(data.circuit.state).toBe('closed')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should accept a trailing slash', async () => {
+      const response = await worker.fetch(new Request(`https://example.com/v1/users/${userId}/tweets/`), env)
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should answer unknown paths with a 404', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v2/users'), env)
+
+      expect(response.status).toBe(404)
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should answer CORS preflights', async () => {
+      const response = await worker.fetch(
+        new Request(`https://example.com/v1/users/${userId}/tweets`, { method: 'OPTIONS' }),
+        env
+      )
+
+      expect(response.status).toBe(204)
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('User Profiles', () => {
+    const userId = MOCK_USERS.MOONWELL_DEFI.id
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(createMockFetch())
+    })
+
+    it('should serve profiles with public metrics from their own cache entry', async () => {
+      const response = await worker.fetch(new Request(`https://example.com/v1/users/${userId}`), env)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual(createMockProfileResponse(userId))
+      expect(mockR2Bucket.keys()).toEqual([`users/${userId}.json`])
+      const upstream = new URL(mockFetch.mock.calls[0][0])
+      expect(upstream.pathname).toBe(`/2/users/${userId}`)
+      expect(upstream.searchParams.get('user.fields')).toBe(
+        'created_at,description,pinned_tweet_id,profile_image_url,public_metrics,verified'
+      )
+      expect(upstream.searchParams.get('expansions')).toBe('pinned_tweet_id')
+    })
+
+    it('should keep profiles fresh for the profile TTL', async () => {
+      mockR2Bucket.setWithUploadTime(
+        `users/${userId}.json`,
+        JSON.stringify(createMockProfileResponse(userId)),
+        new Date(Date.now() - 60 * 60 * 1000)
+      )
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/users/${userId}`), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should refresh profiles apart from username mappings', async () => {
+      const uploaded = new Date(Date.now() - 60 * 60 * 1000)
+      mockR2Bucket.setWithUploadTime(
+        `users/${userId}.json`,
+        JSON.stringify(createMockProfileResponse(userId)),
+        uploaded
+      )
+      mockR2Bucket.setWithUploadTime('usernames/moonwelldefi.json', JSON.stringify({ id: userId }), uploaded)
+
+      const response = await worker.fetch(new Request('https://example.com/v1/users/by/MoonwellDeFi'), {
+        ...env,
+        CACHE_TTL_PROFILE: '600'
+      })
+
+      expect(response.headers.get('X-Cache-Status')).not.toBe('fresh')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(new URL(mockFetch.mock.calls[0][0]).pathname).toBe(`/2/users/${userId}`)
+    })
+
+    it('should merge the profile into timelines on request', async () => {
+      const response = await worker.fetch(
+        new Request(`https://example.com/v1/users/${userId}/tweets?include=profile`),
+        env
+      )
+      const data = await response.json()
+
+      expect(data.data).toHaveLength(2)
+      expect(data.profile).toEqual(createMockProfileResponse(userId).data)
+      expect(mockR2Bucket.keys().sort()).toEqual([`${userId}.json`, `users/${userId}.json`])
+    })
+
+    it('should keep the merged profile in the simple format', async () => {
+      const data = await (
+        await worker.fetch(new Request(`https://example.com?userid=${userId}&include=profile&format=simple`), env)
+      ).json()
+
+      expect(data.profile.public_metrics.followers_count).toBe(1200)
+    })
+
+    it('should serve the timeline without the profile when it cannot be fetched', async () => {
+      const timelineFetch = createMockFetch()
+      mockFetch.mockImplementation(async (url: string, options?: RequestInit) =>
+        new URL(url).pathname === `/2/users/${userId}`
+          ? new Response(JSON.stringify({ title: 'Not Found' }), { status: 404 })
+          : timelineFetch(url, options)
+      )
+
+      const response = await worker.fetch(
+        new Request(`https://example.com/v1/users/${userId}/tweets?include=profile`),
+        env
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data).toHaveLength(2)
+      expect(data.profile).toBeUndefined()
+    })
+
+    it('should reject unknown includes', async () => {
+      const response = await worker.fetch(new Request(`https://example.com?userid=${userId}&include=followers`), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'include', message: 'must be one of: profile' }])
+    })
+
+    it.each([
+      `/v1/users/${userId}/likes?include=profile`,
+      '/?username=MoonwellDeFi&lookup=likes&include=profile',
+      `/v1/timelines?userids=${userId}&include=profile`,
+      `/v1/users/${userId}?include=profile`,
+      `/v1/tweets?ids=${userId}&include=profile`,
+      '/v1/search/recent?query=%24WELL&include=profile'
+    ])('should reject include=profile on %s', async (path) => {
+      const response = await worker.fetch(new Request(`https://example.com${path}`), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'include', message: 'is not supported on this route' }])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should reject formats on profiles', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/users/by/MoonwellDeFi?format=rss'), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'format', message: 'is not supported on this route' }])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Tweet Lookup', () => {
+    const [first, second] = MOCK_RICH_TIMELINE.data
+    const missingId = '1692563982459252000'
+
+    // Answers /2/tweets?ids= from MOCK_RICH_TIMELINE, reporting unknown IDs
+    // the way Twitter does
+    const lookupFetch = async (url: string) => {
+      const ids = (new URL(url).searchParams.get('ids') ?? '').split(',')
+      const found = MOCK_RICH_TIMELINE.data.filter((tweet) => ids.includes(tweet.id))
+      const errors = ids
+        .filter((id) => !found.some((tweet) => tweet.id === id))
+        .map((id) => ({ value: id, resource_id: id, resource_type: 'tweet', title: 'Not Found Error' }))
+      return new Response(
+        JSON.stringify({
+          ...(found.length > 0 ? { data: found, includes: MOCK_RICH_TIMELINE.includes } : {}),
+          ...(errors.length > 0 ? { errors } : {})
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } }
+      )
+    }
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(lookupFetch)
+    })
+
+    it('should look tweets up in one call and keep the requested order', async () => {
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${second.id},${first.id}`), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('miss')
+      expect(data.data.map((tweet: { id: string }) => tweet.id)).toEqual([second.id, first.id])
+      expect(data.includes.users).toEqual(MOCK_RICH_TIMELINE.includes.users)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(new URL(mockFetch.mock.calls[0][0]).pathname).toBe('/2/tweets')
+    })
+
+    it('should cache each tweet on its own', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id},${second.id}`), env)
+
+      expect(mockR2Bucket.keys().sort()).toEqual([`tweets/${second.id}.json`, `tweets/${first.id}.json`])
+      const entry = JSON.parse((await mockR2Bucket.get(`tweets/${first.id}.json`))!.body)
+      expect(entry).toEqual({ data: first, includes: { users: MOCK_RICH_TIMELINE.includes.users } })
+    })
+
+    it('should only fetch the tweets that are not cached', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id}`), env)
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id},${second.id}`), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(new URL(mockFetch.mock.calls[1][0]).searchParams.get('ids')).toBe(second.id)
+      expect((await response.json()).data).toHaveLength(2)
+    })
+
+    it('should serve fully cached lookups without calling Twitter', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id},${second.id}`), env)
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${second.id},${first.id}`), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+    })
+
+    it('should date lookups from the newest tweet and age them from the oldest', async () => {
+      const seed = (tweet: typeof first, minutesAgo: number) => {
+        const uploaded = new Date(Math.floor(Date.now() / 1000) * 1000 - minutesAgo * 60 * 1000)
+        mockR2Bucket.setWithUploadTime(
+          `tweets/${tweet.id}.json`,
+          JSON.stringify({ data: tweet, includes: MOCK_RICH_TIMELINE.includes }),
+          uploaded
+        )
+        return uploaded
+      }
+      const url = `https://example.com/v1/tweets?ids=${first.id},${second.id}`
+      seed(first, 10)
+      const modified = seed(second, 5)
+
+      const response = await worker.fetch(new Request(url), env)
+      expect(response.headers.get('Last-Modified')).toBe(modified.toUTCString())
+      expect(response.headers.get('Cache-Control')).toContain('max-age=301,')
+
+      // The second tweet is refreshed with new content
+      seed({ ...second, text: 'Edited' }, 0)
+      const revalidated = await worker.fetch(
+        new Request(url, { headers: { 'If-Modified-Since': response.headers.get('Last-Modified')! } }),
+        env
+      )
+
+      expect(revalidated.status).toBe(200)
+      expect((await revalidated.json()).data[1].text).toBe('Edited')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should share entries with single tweet lookups', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id}`), env)
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets/${first.id}`), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect((await response.json()).data).toEqual(first)
+    })
+
+    it('should report tweets Twitter does not return', async () => {
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id},${missingId}`), env)
+      const data = await response.json()
+
+      expect(data.data.map((tweet: { id: string }) => tweet.id)).toEqual([first.id])
+      expect(data.errors).toEqual([expect.objectContaining({ resource_id: missingId })])
+      expect(mockR2Bucket.keys()).toEqual([`tweets/${first.id}.json`])
+    })
+
+    it('should serve cached tweets when Twitter fails', async () => {
+      await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id}`), env)
+      mockFetch.mockImplementation(createFailingMockFetch())
+      env.TWITTER_RETRIES = '0'
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id},${second.id}`), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      expect(data.data).toEqual([first])
+      expect(data.errors).toEqual([expect.objectContaining({ resource_id: second.id, title: 'Unavailable' })])
+    })
+
+    it('should fail when Twitter fails and nothing is cached', async () => {
+      mockFetch.mockImplementation(createFailingMockFetch())
+      env.TWITTER_RETRIES = '0'
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id}`), env)
+
+      expect(response.status).toBe(502)
+      expect((await response.json()).error).toBe('Failed to fetch data and no cache available')
+    })
+
+    it('should validate the IDs', async () => {
+      const ids = Array.from({ length: 101 }, (_, index) => String(1000 + index)).join(',')
+
+      const missing = await worker.fetch(new Request('https://example.com/v1/tweets'), env)
+      const invalid = await worker.fetch(new Request('https://example.com/v1/tweets?ids=1,abc'), env)
+      const tooMany = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${ids}`), env)
+
+      expect((await missing.json()).fields).toEqual([{ field: 'ids', message: 'is required' }])
+      expect((await invalid.json()).fields).toEqual([
+        { field: 'ids', message: 'must be a comma separated list of numeric IDs' }
+      ])
+      expect((await tooMany.json()).fields).toEqual([{ field: 'ids', message: 'must list at most 100 IDs' }])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should reject formats', async () => {
+      const single = await worker.fetch(new Request(`https://example.com/v1/tweets/${first.id}?format=atom`), env)
+      const batch = await worker.fetch(new Request(`https://example.com/v1/tweets?ids=${first.id}&format=simple`), env)
+
+      for (const response of [single, batch]) {
+        expect(response.status).toBe(400)
+        expect((await response.json()).fields).toEqual([{ field: 'format', message: 'is not supported on this route' }])
+      }
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Merged Timelines', () => {
+    const moonwellId = MOCK_USERS.MOONWELL_DEFI.id
+    const mamoId = MOCK_USERS.MAMO_AGENT.id
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(createMockFetch())
+    })
+
+    it('should merge timelines newest first', async () => {
+      const response = await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.map((tweet: { id: string }) => tweet.id)).toEqual(['2001', '1001', '1002', '2002'])
+      expect(data.includes.users.map((user: { id: string }) => user.id)).toEqual([moonwellId, mamoId])
+      expect(data.meta.result_count).toBe(4)
+      expect(data.errors).toBeUndefined()
+    })
+
+    it('should reuse and refresh only stale per-account entries', async () => {
+      await worker.fetch(new Request(`https://example.com?userid=${moonwellId}`), env)
+      mockFetch.mockClear()
+
+      await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch.mock.calls[0][0]).toContain(`/2/users/${mamoId}/tweets?`)
+      expect(mockR2Bucket.keys().sort()).toEqual([`${moonwellId}.json`, `${mamoId}.json`].sort())
+    })
+
+    it('should list each tweet once', async () => {
+      const shared = createMockTwitterResponse(moonwellId)
+      mockR2Bucket.setWithUploadTime(`${moonwellId}.json`, JSON.stringify(shared), new Date())
+      mockR2Bucket.setWithUploadTime(
+        `${mamoId}.json`,
+        JSON.stringify({ ...createMockTwitterResponse(mamoId), data: [shared.data[0]] }),
+        new Date()
+      )
+
+      const data = await (
+        await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+      ).json()
+
+      expect(data.data.map((tweet: { id: string }) => tweet.id)).toEqual(['1001', '1002'])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should summarize the accounts that fail', async () => {
+      const working = createMockFetch()
+      env.TWITTER_RETRIES = '0'
+      mockFetch.mockImplementation(async (url: string, options?: RequestInit) =>
+        url.includes(mamoId) ? createFailingMockFetch()() : working(url, options)
+      )
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.map((tweet: { id: string }) => tweet.id)).toEqual(['1001', '1002'])
+      expect(data.errors).toEqual([
+        {
+          userid: mamoId,
+          status: 502,
+          error: 'Failed to fetch data and no cache available',
+          code: 'upstream_unreachable',
+          message: 'Twitter could not be reached'
+        }
+      ])
+    })
+
+    it('should fail when every account fails', async () => {
+      env.TWITTER_RETRIES = '0'
+      mockFetch.mockImplementation(createFailingMockFetch())
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+      const data = await response.json()
+
+      expect(response.status).toBe(502)
+      expect(data.error).toBe('No timeline could be fetched')
+      expect(data.errors.map((error: { userid: string }) => error.userid)).toEqual([moonwellId, mamoId])
+    })
+
+    it('should serve the merged timeline with validators and answer conditional requests', async () => {
+      const url = `https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`
+      const response = await worker.fetch(new Request(url), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('miss')
+      expect(response.headers.get('Cache-Control')).toMatch(/^public, max-age=\d+/)
+      expect(response.headers.get('Last-Modified')).not.toBeNull()
+      const etag = response.headers.get('ETag')!
+
+      const revalidated = await worker.fetch(new Request(url, { headers: { 'If-None-Match': etag } }), env)
+
+      expect(revalidated.status).toBe(304)
+      expect(revalidated.headers.get('X-Cache-Status')).toBe('fresh')
+    })
+
+    it('should date the merged timeline from its newest entry and age it from the oldest', async () => {
+      const second = Math.floor(Date.now() / 1000) * 1000
+      const older = new Date(second - 10 * 60 * 1000)
+      const newer = new Date(second - 5 * 60 * 1000)
+      mockR2Bucket.setWithUploadTime(`${moonwellId}.json`, JSON.stringify(createMockTwitterResponse(moonwellId)), older)
+      mockR2Bucket.setWithUploadTime(`${mamoId}.json`, JSON.stringify(createMockTwitterResponse(mamoId)), newer)
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(response.headers.get('Last-Modified')).toBe(newer.toUTCString())
+      expect(response.headers.get('Cache-Control')).toContain('max-age=301,')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should not let a partial merged timeline be cached', async () => {
+      const working = createMockFetch()
+      env.TWITTER_RETRIES = '0'
+      mockFetch.mockImplementation(async (url: string, options?: RequestInit) =>
+        url.includes(mamoId) ? createFailingMockFetch()() : working(url, options)
+      )
+
+      const response = await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}`), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=0, must-revalidate')
+    })
+
+    it('should render the merged timeline as one feed', async () => {
+      const url = `https://example.com/v1/timelines?userids=${moonwellId},${mamoId}&format=rss`
+      const response = await worker.fetch(new Request(url), env)
+      const body = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toContain('application/rss+xml')
+      expect(body).toContain('<title>Tweets by @MoonwellDeFi, @Mamo_agent</title>')
+      expect(body).toContain(`<link>${url.replace(/&/g, '&amp;')}</link>`)
+      expect(body.match(/<item>/g)).toHaveLength(4)
+    })
+
+    it('should keep failed accounts in the simple format', async () => {
+      const working = createMockFetch()
+      env.TWITTER_RETRIES = '0'
+      mockFetch.mockImplementation(async (url: string, options?: RequestInit) =>
+        url.includes(mamoId) ? createFailingMockFetch()() : working(url, options)
+      )
+
+      const data = await (
+        await worker.fetch(new Request(`https://example.com/v1/timelines?userids=${moonwellId},${mamoId}&format=simple`), env)
+      ).json()
+
+      expect(data.tweets.map((tweet: { id: string }) => tweet.id)).toEqual(['1001', '1002'])
+      expect(data.errors.map((error: { userid: string }) => error.userid)).toEqual([mamoId])
+    })
+
+    it('should require user IDs', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/timelines'), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'userids', message: 'is required' }])
+    })
+  })
+
+  describe('Recent Search', () => {
+    beforeEach(() => {
+      env.SEARCH_QUERIES = JSON.stringify(['$WELL', '$WELL -is:retweet'])
+      mockFetch.mockImplementation(createPayloadMockFetch(MOCK_RICH_TIMELINE))
+    })
+
+    it('should run allowed queries against recent search', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL'), env)
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data).toEqual(MOCK_RICH_TIMELINE.data)
+      const upstream = new URL(mockFetch.mock.calls[0][0])
+      expect(upstream.pathname).toBe('/2/tweets/search/recent')
+      expect(upstream.searchParams.get('query')).toBe('$WELL')
+      expect(upstream.searchParams.get('max_results')).toBe('10')
+      expect(upstream.searchParams.get('tweet.fields')).toBe('created_at,entities,public_metrics')
+    })
+
+    it('should share one entry between equivalent queries', async () => {
+      await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL%20%20-is:retweet'), env)
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%20%24WELL%20-is:retweet%20'), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockR2Bucket.keys()).toEqual(['search/recent.query=%24WELL%20-is%3Aretweet.json'])
+    })
+
+    it('should reject queries missing from the allowlist', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24BTC'), env)
+
+      expect(response.status).toBe(403)
+      expect((await response.json()).error).toBe('Query is not allowed: $BTC')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should keep the case of queries', async () => {
+      env.SEARCH_QUERIES = JSON.stringify(['$WELL OR #Moonwell'])
+
+      const allowed = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL%20OR%20%23Moonwell'), env)
+      const lowercase = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24well%20or%20%23moonwell'), env)
+
+      expect(allowed.status).toBe(200)
+      expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('query')).toBe('$WELL OR #Moonwell')
+      expect(mockR2Bucket.keys()).toEqual(['search/recent.query=%24WELL%20OR%20%23Moonwell.json'])
+      expect(lowercase.status).toBe(403)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject every query without an allowlist', async () => {
+      delete env.SEARCH_QUERIES
+
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL'), env)
+
+      expect(response.status).toBe(403)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should serve stale results when Twitter fails', async () => {
+      mockR2Bucket.setWithUploadTime(
+        'search/recent.query=%24WELL.json',
+        JSON.stringify(MOCK_RICH_TIMELINE),
+        new Date(Date.now() - 2 * 60 * 60 * 1000)
+      )
+      env.TWITTER_RETRIES = '0'
+      mockFetch.mockImplementation(createFailingMockFetch())
+
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL'), env)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache-Status')).toBe('stale-on-error')
+      expect((await response.json()).data).toEqual(MOCK_RICH_TIMELINE.data)
+    })
+
+    it('should keep results fresh for the search TTL', async () => {
+      mockR2Bucket.setWithUploadTime(
+        'search/recent.query=%24WELL.json',
+        JSON.stringify(MOCK_RICH_TIMELINE),
+        new Date(Date.now() - 20 * 60 * 1000)
+      )
+
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL'), env)
+
+      expect(response.headers.get('X-Cache-Status')).toBe('fresh')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should require a query', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent'), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'query', message: 'is required' }])
+    })
+
+    it('should reject formats', async () => {
+      const response = await worker.fetch(new Request('https://example.com/v1/search/recent?query=%24WELL&format=rss'), env)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).fields).toEqual([{ field: 'format', message: 'is not supported on this route' }])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe('CORS Headers', () => {
     it('should include CORS headers in successful responses', async () => {
       mockFetch.mockImplementation(createMockFetch())